@@ -4,6 +4,7 @@ import { Text } from 'react-native';
 import { COLORS, FONT_SIZES, getThemedColors } from '../../src/constants/theme';
 import { authAPI } from '../../src/services/api';
 import { useTheme } from '../../src/contexts/ThemeContext';
+import { useUnacknowledgedCount } from '../../src/hooks/useAlertReviews';
 
 function TabIcon({ icon }: { icon: string }) {
   return <Text style={{ fontSize: 24 }}>{icon}</Text>;
@@ -13,6 +14,7 @@ export default function TabLayout() {
   const router = useRouter();
   const { isDark } = useTheme();
   const themedColors = getThemedColors(isDark);
+  const unacknowledgedCount = useUnacknowledgedCount();
 
   useEffect(() => {
     let mounted = true;
@@ -71,6 +73,16 @@ export default function TabLayout() {
         }}
       />
       
+      {/* Alert history across all devices */}
+      <Tabs.Screen
+        name="alerts"
+        options={{
+          title: 'Alerts',
+          tabBarIcon: () => <TabIcon icon="🔔" />,
+          tabBarBadge: unacknowledgedCount > 0 ? unacknowledgedCount : undefined,
+        }}
+      />
+      
       {/* Settings tab */}
       <Tabs.Screen
         name="settings"
@@ -0,0 +1,3 @@
+import AlertsScreen from '../../src/screens/AlertsScreen';
+
+export default AlertsScreen;
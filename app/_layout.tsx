@@ -2,24 +2,42 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
+import { EnvironmentBadge } from '../src/components/common/EnvironmentBadge';
+import { AppLockProvider } from '../src/contexts/AppLockContext';
+import { DeviceProvider } from '../src/contexts/DeviceContext';
 import { ThemeProvider } from '../src/contexts/ThemeContext';
+import { CommandQueue } from '../src/utils/command-queue';
 import { NetworkService } from '../src/utils/network-utils';
+// Imported here so the background action task is defined before anything else runs
+import { registerBackgroundNotificationTask, registerNotificationCategories } from '../src/utils/notification-actions';
 
 export default function RootLayout() {
   useEffect(() => {
     // Initialize network service on app startup
     NetworkService.init();
+    // Restore commands that were waiting for a connection
+    CommandQueue.init();
+    // Action buttons on alert notifications
+    registerNotificationCategories();
+    registerBackgroundNotificationTask();
   }, []);
 
   return (
     <ThemeProvider>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="index" />
-        <Stack.Screen name="(tabs)" />
-        <Stack.Screen name="device-detail" />
-        <Stack.Screen name="settings" />
-      </Stack>
-      <StatusBar style="auto" />
+      <AppLockProvider>
+        <DeviceProvider>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="index" />
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="device-detail" />
+            <Stack.Screen name="device-settings" />
+            <Stack.Screen name="geofences" />
+            <Stack.Screen name="settings" />
+          </Stack>
+          <EnvironmentBadge />
+          <StatusBar style="auto" />
+        </DeviceProvider>
+      </AppLockProvider>
     </ThemeProvider>
   );
 }
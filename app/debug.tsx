@@ -1,3 +0,0 @@
-import DebugScreen from '../src/screens/DebugScreen';
-
-export default DebugScreen;
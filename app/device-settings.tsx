@@ -0,0 +1,3 @@
+import DeviceSettingsScreen from '../src/screens/DeviceSettingsScreen';
+
+export default DeviceSettingsScreen;
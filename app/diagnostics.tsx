@@ -0,0 +1,3 @@
+import DiagnosticsScreen from '../src/screens/DiagnosticsScreen';
+
+export default DiagnosticsScreen;
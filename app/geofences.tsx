@@ -0,0 +1,3 @@
+import GeofenceScreen from '../src/screens/GeofenceScreen';
+
+export default GeofenceScreen;
@@ -3,6 +3,9 @@ import { useEffect, useState, useRef } from 'react';
 import { View, Image, Animated, StyleSheet } from 'react-native';
 import LoginScreen from '../src/screens/LoginScreen';
 import { authAPI } from '../src/services/api';
+import { createLogger } from '../src/utils/logger';
+
+const log = createLogger('AppStart');
 
 export default function Index() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
@@ -31,9 +34,9 @@ export default function Index() {
 
   const checkAuth = async () => {
     try {
-      console.log('🔍 Checking authentication...');
+      log.debug('🔍 Checking authentication...');
       const authenticated = await authAPI.isAuthenticated();
-      console.log('✅ Auth check result:', authenticated);
+      log.debug('✅ Auth check result:', authenticated);
       
       // Minimum splash duration (like Instagram)
       await new Promise(resolve => setTimeout(resolve, 1500));
@@ -48,7 +51,7 @@ export default function Index() {
         setIsAuthenticated(authenticated);
       });
     } catch (error) {
-      console.error('❌ Auth check failed:', error);
+      log.error('❌ Auth check failed:', error);
       await authAPI.logout();
       
       // Still show splash animation before showing error
@@ -0,0 +1,5 @@
+/* global jest */
+// Storage in memory, so the utils' load/save paths run without a device
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
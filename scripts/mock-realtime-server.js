@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal WebSocket server that speaks the same protocol as the realtime
+ * endpoint, for testing src/services/realtime.ts without the real backend.
+ *
+ *   npm run mock:realtime
+ *   EXPO_PUBLIC_REALTIME_URL=ws://<your-ip>:8787/ws npx expo start
+ *
+ * Every subscribed device gets a status update every few seconds (random
+ * walk around its last position) and occasionally an alert. Kill the
+ * server to watch the app fall back to polling and reconnect with backoff.
+ */
+
+const { Buffer } = require("buffer");
+const crypto = require("crypto");
+const http = require("http");
+
+const PORT = Number(process.env.PORT || 8787);
+const STATUS_INTERVAL_MS = 3000;
+const ALERT_PROBABILITY = 0.1;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+let nextAlertId = 1000000;
+const positions = new Map();
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Client frames are always masked; returns { opcode, text, length } or null if incomplete
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (buffer.length < offset + 4 + length) return null;
+  const mask = buffer.subarray(offset, offset + 4);
+  const payload = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    payload[i] = buffer[offset + 4 + i] ^ mask[i % 4];
+  }
+  return { opcode, text: payload.toString(), length: offset + 4 + length };
+}
+
+function nextStatus(deviceId) {
+  const last = positions.get(deviceId) || { lat: -6.2 + Math.random() * 0.02, lon: 106.8 + Math.random() * 0.02 };
+  const position = {
+    lat: last.lat + (Math.random() - 0.5) * 0.0005,
+    lon: last.lon + (Math.random() - 0.5) * 0.0005,
+  };
+  positions.set(deviceId, position);
+  return {
+    device_id: deviceId,
+    name: deviceId,
+    online: true,
+    seconds_since_seen: 0,
+    last_seen: new Date().toISOString(),
+    last_status: "MOCK_UPDATE",
+    armed_state: Math.random() > 0.5 ? "armed" : "disarmed",
+    lat: position.lat,
+    lon: position.lon,
+  };
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket only\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (url.pathname !== "/ws") {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+
+  const accept = crypto
+    .createHash("sha1")
+    .update(req.headers["sec-websocket-key"] + WS_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  console.log("🔌 Client connected");
+
+  let deviceIds = [];
+  // The token arrives in the first frame, not the URL
+  let authenticated = false;
+  let pending = Buffer.alloc(0);
+
+  const timer = setInterval(() => {
+    deviceIds.forEach((deviceId) => {
+      const status = nextStatus(deviceId);
+      socket.write(encodeFrame(JSON.stringify({ type: "status", data: status })));
+      if (Math.random() < ALERT_PROBABILITY) {
+        const alert = {
+          id: nextAlertId++,
+          device_id: deviceId,
+          status: "MOVEMENT_DETECTED",
+          lat: status.lat,
+          lon: status.lon,
+          created_at: new Date().toISOString(),
+        };
+        socket.write(encodeFrame(JSON.stringify({ type: "alert", data: alert })));
+      }
+    });
+  }, STATUS_INTERVAL_MS);
+
+  socket.on("data", (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    let frame;
+    while ((frame = decodeFrame(pending))) {
+      pending = pending.subarray(frame.length);
+      if (frame.opcode === 0x8) {
+        socket.end();
+        return;
+      }
+      if (frame.opcode !== 0x1) continue;
+      try {
+        const message = JSON.parse(frame.text);
+        if (!authenticated) {
+          if (message.type !== "auth" || !message.token) {
+            console.log("🚫 First message wasn't auth, closing");
+            socket.end();
+            return;
+          }
+          authenticated = true;
+        } else if (message.type === "subscribe" && Array.isArray(message.device_ids)) {
+          deviceIds = message.device_ids;
+          console.log("📡 Subscribed to:", deviceIds.join(", ") || "(none)");
+        }
+      } catch {
+        console.log("Ignoring malformed message:", frame.text);
+      }
+    }
+  });
+
+  const cleanup = () => {
+    clearInterval(timer);
+    console.log("👋 Client disconnected");
+  };
+  socket.on("close", cleanup);
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server listening on ws://localhost:${PORT}/ws`);
+});
@@ -0,0 +1,518 @@
+import * as Location from 'expo-location';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useTrackedCommands } from '../../hooks/useTrackedCommands';
+import { deviceAPI } from '../../services/api';
+import { CommandQueue } from '../../utils/command-queue';
+import { DEFAULT_DEVICE_ICON, DEVICE_ICONS, DeviceMetadata } from '../../utils/device-metadata';
+import { DevicePairing, validateDeviceId } from '../../utils/device-pairing';
+import { GeofenceStore } from '../../utils/geofence';
+import { LatLng } from '../../utils/location-history';
+import { createLogger } from '../../utils/logger';
+import { Button } from './Button';
+import { CommandStatusLine } from './CommandStatusLine';
+import { DeviceLabelScanner } from './DeviceLabelScanner';
+import { MapComponent } from './MapComponent';
+
+const log = createLogger('AddDevice');
+
+type WizardStep = 'id' | 'name' | 'home' | 'heartbeat' | 'test';
+
+const STEPS: WizardStep[] = ['id', 'name', 'home', 'heartbeat', 'test'];
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  id: 'Add New Device',
+  name: 'Name Your Device',
+  home: 'Set Home Location',
+  heartbeat: 'Waiting for Device',
+  test: 'Test Your Device',
+};
+
+const HOME_RADIUS_OPTIONS = [100, 250, 500];
+const HEARTBEAT_POLL_MS = 3000;
+// Long enough for a cold GPS/GSM start after plugging the tracker in
+const HEARTBEAT_TIMEOUT_MS = 3 * 60 * 1000;
+
+interface AddDeviceWizardProps {
+  visible: boolean;
+  onClose: () => void;
+  // Once the device has been seen online, or the user skipped waiting for it
+  onAdded: (deviceId: string) => void;
+}
+
+/**
+ * Step-by-step onboarding shared by every "Add Device" entry point. The
+ * device is registered after the name step so the later steps can talk to
+ * it, but it only counts as added once it reported in (or the user skipped
+ * that); abandoning setup before then unregisters it again.
+ */
+export const AddDeviceWizard: React.FC<AddDeviceWizardProps> = ({ visible, onClose, onAdded }) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [step, setStep] = useState<WizardStep>('id');
+  const [deviceId, setDeviceId] = useState('');
+  // From a scanned label; dropped as soon as the ID is edited by hand
+  const [pairingSecret, setPairingSecret] = useState<string | undefined>();
+  const [showScanner, setShowScanner] = useState(false);
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState(DEFAULT_DEVICE_ICON);
+  const [busy, setBusy] = useState(false);
+  const [registered, setRegistered] = useState(false);
+  const [confirmed, setConfirmed] = useState(false);
+  const [homeCenter, setHomeCenter] = useState<LatLng | null>(null);
+  const [homeRadius, setHomeRadius] = useState(HOME_RADIUS_OPTIONS[0]);
+  const [locating, setLocating] = useState(false);
+  const [homeFenceId, setHomeFenceId] = useState<string | null>(null);
+  const [heartbeatAttempt, setHeartbeatAttempt] = useState(0);
+  const [heartbeatTimedOut, setHeartbeatTimedOut] = useState(false);
+  const [testCommandId, setTestCommandId] = useState<string | null>(null);
+
+  const registeredId = registered ? deviceId.trim() : undefined;
+  const trackedCommands = useTrackedCommands(registeredId);
+  const testCommand = trackedCommands.find((cmd) => cmd.id === testCommandId);
+  // The parent's callback may change every render; the heartbeat poll shouldn't restart for it
+  const onAddedRef = useRef(onAdded);
+  onAddedRef.current = onAdded;
+
+  // Every opening starts from scratch
+  useEffect(() => {
+    if (!visible) return;
+    setStep('id');
+    setDeviceId('');
+    setPairingSecret(undefined);
+    setName('');
+    setIcon(DEFAULT_DEVICE_ICON);
+    setRegistered(false);
+    setConfirmed(false);
+    setHomeCenter(null);
+    setHomeRadius(HOME_RADIUS_OPTIONS[0]);
+    setHomeFenceId(null);
+    setHeartbeatTimedOut(false);
+    setTestCommandId(null);
+  }, [visible]);
+
+  // Home defaults to where the phone is; most people set up in their driveway
+  useEffect(() => {
+    if (step !== 'home') return;
+    let cancelled = false;
+    (async () => {
+      setLocating(true);
+      try {
+        const { granted } = await Location.requestForegroundPermissionsAsync();
+        if (!granted) return;
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+        if (!cancelled) setHomeCenter({ lat: position.coords.latitude, lon: position.coords.longitude });
+      } catch (error) {
+        log.warn('Failed to get current location:', error);
+      } finally {
+        if (!cancelled) setLocating(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [step]);
+
+  useEffect(() => {
+    if (step !== 'heartbeat' || !registeredId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const startedAt = Date.now();
+    setHeartbeatTimedOut(false);
+
+    const poll = async () => {
+      try {
+        const status = await deviceAPI.getDeviceStatus(registeredId);
+        if (cancelled) return;
+        if (status.online) {
+          log.info(`💓 First heartbeat from ${registeredId}`);
+          setConfirmed(true);
+          onAddedRef.current(registeredId);
+          setStep('test');
+          return;
+        }
+      } catch (error) {
+        log.warn(`Heartbeat check for ${registeredId} failed:`, error);
+      }
+      if (cancelled) return;
+      if (Date.now() - startedAt >= HEARTBEAT_TIMEOUT_MS) {
+        setHeartbeatTimedOut(true);
+        return;
+      }
+      timer = setTimeout(poll, HEARTBEAT_POLL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [step, registeredId, heartbeatAttempt]);
+
+  const handleLabelScanned = (pairing: DevicePairing) => {
+    setDeviceId(pairing.deviceId);
+    setPairingSecret(pairing.secret);
+    setShowScanner(false);
+  };
+
+  const submitId = () => {
+    const idError = validateDeviceId(deviceId);
+    if (idError) {
+      Alert.alert('Error', idError);
+      return;
+    }
+    setStep('name');
+  };
+
+  const register = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please give your device a name');
+      return;
+    }
+    setBusy(true);
+    try {
+      await deviceAPI.registerDevice(deviceId.trim(), name.trim(), pairingSecret);
+      // The device is on the account either way; a lost icon isn't worth failing over
+      await DeviceMetadata.save(deviceId.trim(), { marker_icon: icon }).catch((error) =>
+        log.warn('Failed to save device icon:', error)
+      );
+      setRegistered(true);
+      setStep('home');
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to add device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveHome = async () => {
+    if (!registeredId || !homeCenter) return;
+    setBusy(true);
+    try {
+      const fence = await GeofenceStore.add(registeredId, 'Home', { type: 'circle', center: homeCenter, radius: homeRadius });
+      setHomeFenceId(fence.id);
+      setStep('heartbeat');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const skipHeartbeat = () => {
+    if (!registeredId) return;
+    setConfirmed(true);
+    onAdded(registeredId);
+    setStep('test');
+  };
+
+  const sendTestBuzz = async () => {
+    if (!registeredId) return;
+    setBusy(true);
+    try {
+      setTestCommandId(await CommandQueue.addCommand(registeredId, 'BUZZ'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Registered but never confirmed: take it back off the account
+  const abandon = async () => {
+    if (!registeredId) return;
+    try {
+      if (homeFenceId) await GeofenceStore.remove(homeFenceId);
+      await deviceAPI.removeDevice(registeredId);
+    } catch (error) {
+      log.warn(`Failed to undo registration of ${registeredId}:`, error);
+    }
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    if (!registered || confirmed) {
+      onClose();
+      return;
+    }
+    Alert.alert('Stop Setup?', `${deviceId.trim()} hasn't been seen online yet and will be removed from your account.`, [
+      { text: 'Keep Going', style: 'cancel' },
+      {
+        text: 'Stop',
+        style: 'destructive',
+        onPress: async () => {
+          setBusy(true);
+          await abandon();
+          setBusy(false);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const inputStyle = [styles.input, {
+    borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+    color: themedColors.text,
+    backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+  }];
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string | number) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor: selected ? COLORS.primary : themedColors.border }, selected && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: themedColors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'id':
+        return (
+          <>
+            <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+              Scan the label on your tracker or enter its ID
+            </Text>
+            <Button title="📷 Scan Label" variant="outline" onPress={() => setShowScanner(true)} style={styles.button} />
+            <Text style={[styles.label, { color: themedColors.text }]}>Device ID</Text>
+            <TextInput
+              style={inputStyle}
+              placeholder="e.g., MOTOR-ABC123"
+              placeholderTextColor={themedColors.textTertiary}
+              value={deviceId}
+              onChangeText={(text) => {
+                setDeviceId(text);
+                setPairingSecret(undefined);
+              }}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            {!!pairingSecret && (
+              <Text style={[styles.note, { color: themedColors.textSecondary }]}>🔒 Pairing code read from label</Text>
+            )}
+            <Button title="Next" onPress={submitId} disabled={!deviceId.trim()} style={styles.button} />
+          </>
+        );
+
+      case 'name':
+        return (
+          <>
+            <Text style={[styles.label, { color: themedColors.text }]}>Device Name</Text>
+            <TextInput
+              style={inputStyle}
+              placeholder="e.g., My Honda Beat"
+              placeholderTextColor={themedColors.textTertiary}
+              value={name}
+              onChangeText={setName}
+              editable={!busy}
+            />
+            <Text style={[styles.label, { color: themedColors.text }]}>Icon</Text>
+            <View style={styles.chipRow}>
+              {DEVICE_ICONS.map((option) => renderChip(option, icon === option, () => setIcon(option), option))}
+            </View>
+            <Button title="Add Device" onPress={register} loading={busy} style={styles.button} />
+            <Button title="Back" variant="glass" onPress={() => setStep('id')} disabled={busy} style={styles.button} />
+          </>
+        );
+
+      case 'home':
+        return (
+          <>
+            <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+              You&apos;ll get a notification when {name.trim()} leaves this zone. Tap the map to move it.
+            </Text>
+            {homeCenter ? (
+              <View style={styles.map}>
+                <MapComponent
+                  latitude={homeCenter.lat}
+                  longitude={homeCenter.lon}
+                  zoom={16}
+                  draftGeofence={{ type: 'circle', center: homeCenter, radius: homeRadius }}
+                  onMapPress={setHomeCenter}
+                  height={220}
+                />
+              </View>
+            ) : locating ? (
+              <ActivityIndicator color={COLORS.primary} style={styles.waiting} />
+            ) : (
+              <Text style={[styles.note, { color: themedColors.textSecondary }]}>
+                Your location isn&apos;t available. You can add safe zones later from the device screen.
+              </Text>
+            )}
+            {!!homeCenter && (
+              <View style={styles.chipRow}>
+                {HOME_RADIUS_OPTIONS.map((meters) =>
+                  renderChip(`${meters} m`, homeRadius === meters, () => setHomeRadius(meters), meters)
+                )}
+              </View>
+            )}
+            <Button title="Save Home" onPress={saveHome} loading={busy} disabled={!homeCenter} style={styles.button} />
+            <Button title="Skip" variant="glass" onPress={() => setStep('heartbeat')} disabled={busy} style={styles.button} />
+          </>
+        );
+
+      case 'heartbeat':
+        return (
+          <>
+            <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+              Power on the tracker and make sure it has signal. This usually takes under a minute.
+            </Text>
+            {heartbeatTimedOut ? (
+              <>
+                <Text style={[styles.note, { color: themedColors.textSecondary }]}>
+                  Still no word from {registeredId}. Check its power and SIM, then try again.
+                </Text>
+                <Button title="Keep Waiting" onPress={() => setHeartbeatAttempt((n) => n + 1)} style={styles.button} />
+              </>
+            ) : (
+              <ActivityIndicator size="large" color={COLORS.primary} style={styles.waiting} />
+            )}
+            <Button title="Skip, It's Not With Me" variant="glass" onPress={skipHeartbeat} style={styles.button} />
+          </>
+        );
+
+      case 'test':
+        return (
+          <>
+            <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+              🎉 {name.trim()} is on your account. Make it beep to check everything works.
+            </Text>
+            <Button title="🔊 Send Test Buzz" onPress={sendTestBuzz} loading={busy} style={styles.button} />
+            <CommandStatusLine command={testCommand} />
+            <Button title="Done" variant="glass" onPress={onClose} disabled={busy} style={styles.button} />
+          </>
+        );
+    }
+  };
+
+  const stepIndex = STEPS.indexOf(step);
+
+  return (
+    <>
+      <Modal visible={visible && !showScanner} animationType="slide" transparent onRequestClose={handleClose}>
+        <View style={[styles.overlay, { backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.content, {
+            backgroundColor: isDark ? 'rgba(20,20,30,0.95)' : 'rgba(255,255,255,0.95)',
+            borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+          }]}>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <View style={styles.progress}>
+                {STEPS.map((s, index) => (
+                  <View
+                    key={s}
+                    style={[styles.progressDot, { backgroundColor: index <= stepIndex ? COLORS.primary : themedColors.border }]}
+                  />
+                ))}
+              </View>
+              <Text style={[styles.title, { color: themedColors.text }]}>{STEP_TITLES[step]}</Text>
+              {renderStep()}
+              {step !== 'test' && (
+                <TouchableOpacity onPress={handleClose} disabled={busy} style={styles.cancel}>
+                  <Text style={[styles.cancelText, { color: themedColors.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <DeviceLabelScanner
+        visible={visible && showScanner}
+        onScanned={handleLabelScanned}
+        onClose={() => setShowScanner(false)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.xl,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+    borderWidth: 1,
+  },
+  progress: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    marginBottom: SPACING.md,
+  },
+  progressDot: {
+    width: 24,
+    height: 4,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+  },
+  note: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: SPACING.xs,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+    marginTop: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'rgba(99,102,241,0.1)',
+  },
+  chipText: {
+    fontSize: FONT_SIZES.md,
+  },
+  map: {
+    height: 220,
+    borderRadius: BORDER_RADIUS.md,
+    overflow: 'hidden',
+  },
+  waiting: {
+    marginVertical: SPACING.xl,
+  },
+  button: {
+    marginTop: SPACING.md,
+  },
+  cancel: {
+    alignItems: 'center',
+    marginTop: SPACING.md,
+    padding: SPACING.sm,
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.md,
+  },
+});
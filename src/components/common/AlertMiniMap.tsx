@@ -0,0 +1,103 @@
+// Alert Mini Map Component
+import React, { useMemo } from 'react';
+import { Image, StyleSheet, View, ViewStyle } from 'react-native';
+import { BORDER_RADIUS, COLORS } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface AlertMiniMapProps {
+  latitude: number;
+  longitude: number;
+  zoom?: number;
+  style?: ViewStyle;
+}
+
+const TILE_SIZE = 256;
+
+// Same basemap as LeafletMap
+const tileUrl = (isDark: boolean, z: number, x: number, y: number) =>
+  `https://cartodb-basemaps-a.global.ssl.fastly.net/${isDark ? 'dark_all' : 'light_all'}/${z}/${x}/${y}.png`;
+
+/**
+ * Static 3x3 tile snapshot centred on the point. Lists can hold dozens of
+ * these, so it's plain images instead of a WebView per row.
+ */
+export const AlertMiniMap: React.FC<AlertMiniMapProps> = ({ latitude, longitude, zoom = 15, style }) => {
+  const { isDark } = useTheme();
+
+  const { tiles, offsetX, offsetY } = useMemo(() => {
+    const scale = 2 ** zoom;
+    const latRad = (latitude * Math.PI) / 180;
+    const x = ((longitude + 180) / 360) * scale;
+    const y = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale;
+    const tileX = Math.floor(x);
+    const tileY = Math.floor(y);
+
+    const grid: { key: string; uri: string; left: number; top: number }[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const wrappedX = (tileX + dx + scale) % scale;
+        grid.push({
+          key: `${dx}:${dy}`,
+          uri: tileUrl(isDark, zoom, wrappedX, tileY + dy),
+          left: (dx + 1) * TILE_SIZE,
+          top: (dy + 1) * TILE_SIZE,
+        });
+      }
+    }
+    // Where the point sits inside the grid
+    return {
+      tiles: grid,
+      offsetX: TILE_SIZE + (x - tileX) * TILE_SIZE,
+      offsetY: TILE_SIZE + (y - tileY) * TILE_SIZE,
+    };
+  }, [latitude, longitude, zoom, isDark]);
+
+  return (
+    <View style={[styles.container, style]} pointerEvents="none">
+      <View style={[styles.grid, { marginLeft: -offsetX, marginTop: -offsetY }]}>
+        {tiles.map((tile) => (
+          <Image
+            key={tile.key}
+            source={{ uri: tile.uri }}
+            style={[styles.tile, { left: tile.left, top: tile.top }]}
+          />
+        ))}
+      </View>
+      <View style={styles.marker} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: 120,
+    overflow: 'hidden',
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.gray200,
+  },
+  grid: {
+    position: 'absolute',
+    left: '50%',
+    top: '50%',
+    width: TILE_SIZE * 3,
+    height: TILE_SIZE * 3,
+  },
+  tile: {
+    position: 'absolute',
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+  },
+  marker: {
+    position: 'absolute',
+    left: '50%',
+    top: '50%',
+    width: 14,
+    height: 14,
+    marginLeft: -7,
+    marginTop: -7,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: COLORS.white,
+    backgroundColor: COLORS.danger,
+  },
+});
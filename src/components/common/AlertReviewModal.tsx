@@ -0,0 +1,202 @@
+// Alert Review Modal Component
+import React, { useEffect, useState } from 'react';
+import { Alert as RNAlert, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { AlertReviewState } from '../../services/api';
+import { AlertReviews, getIncidentState, Incident, REVIEW_STATE_LABELS } from '../../utils/alert-reviews';
+import { Button } from './Button';
+
+const REVIEW_STATE_COLORS: Record<AlertReviewState, string> = {
+  new: COLORS.danger,
+  acknowledged: COLORS.info,
+  false_alarm: COLORS.gray500,
+  resolved: COLORS.success,
+};
+
+const DECISIONS: AlertReviewState[] = ['acknowledged', 'false_alarm', 'resolved'];
+
+export const ReviewStatePill: React.FC<{ state: AlertReviewState }> = ({ state }) => (
+  <View style={[styles.pill, { backgroundColor: REVIEW_STATE_COLORS[state] }]}>
+    <Text style={styles.pillText}>{REVIEW_STATE_LABELS[state]}</Text>
+  </View>
+);
+
+interface AlertReviewModalProps {
+  incident: Incident | null;
+  deviceName?: string;
+  onClose: () => void;
+  onOpenDevice?: (deviceId: string) => void;
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+export const AlertReviewModal: React.FC<AlertReviewModalProps> = ({ incident, deviceName, onClose, onOpenDevice }) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [state, setState] = useState<AlertReviewState>('acknowledged');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start from whatever was decided last time
+  useEffect(() => {
+    if (!incident) return;
+    const current = getIncidentState(incident);
+    setState(current === 'new' ? 'acknowledged' : current);
+    setNote(incident.alerts.map((alert) => AlertReviews.get(alert).note).find(Boolean) ?? '');
+  }, [incident]);
+
+  const save = async () => {
+    if (!incident) return;
+    setSaving(true);
+    try {
+      await AlertReviews.review(incident.alerts, state, note);
+      onClose();
+    } catch (error: any) {
+      RNAlert.alert('Error', error.message || 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const count = incident?.alerts.length ?? 0;
+
+  return (
+    <Modal visible={!!incident} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={[styles.overlay, { backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(0, 0, 0, 0.5)' }]}>
+        <View style={[styles.content, {
+          backgroundColor: isDark ? 'rgba(20,20,30,0.95)' : 'rgba(255,255,255,0.95)',
+          borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+        }]}>
+          {incident && (
+            <>
+              <Text style={[styles.title, { color: themedColors.text }]}>
+                {count > 1 ? `Incident · ${count} alerts` : incident.alerts[0].status || 'Alert'}
+              </Text>
+              <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+                {deviceName ?? incident.deviceId}
+                {'\n'}
+                {count > 1
+                  ? `${formatTime(incident.startedAt)} – ${formatTime(incident.endedAt)}`
+                  : formatTime(incident.startedAt)}
+              </Text>
+
+              <View style={styles.decisions}>
+                {DECISIONS.map((decision) => (
+                  <TouchableOpacity
+                    key={decision}
+                    style={[
+                      styles.decision,
+                      { borderColor: state === decision ? REVIEW_STATE_COLORS[decision] : themedColors.border },
+                    ]}
+                    onPress={() => setState(decision)}
+                  >
+                    <Text style={[styles.decisionText, {
+                      color: state === decision ? REVIEW_STATE_COLORS[decision] : themedColors.textSecondary,
+                    }]}>
+                      {REVIEW_STATE_LABELS[decision]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TextInput
+                style={[styles.input, {
+                  color: themedColors.text,
+                  borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+                  backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+                }]}
+                placeholder="Note (optional), e.g. neighbour's cat"
+                placeholderTextColor={themedColors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+                multiline
+                maxLength={500}
+                editable={!saving}
+              />
+
+              <Button title="Save" onPress={save} loading={saving} style={styles.button} />
+              {onOpenDevice && (
+                <Button
+                  title="Open Device"
+                  variant="outline"
+                  onPress={() => {
+                    onClose();
+                    onOpenDevice(incident.deviceId);
+                  }}
+                  style={styles.button}
+                />
+              )}
+              <Button title="Cancel" variant="glass" onPress={onClose} disabled={saving} style={styles.button} />
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    paddingVertical: 2,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  pillText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.xl,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+  },
+  decisions: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+    marginBottom: SPACING.md,
+  },
+  decision: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+  },
+  decisionText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: SPACING.md,
+  },
+  button: {
+    marginBottom: SPACING.sm,
+  },
+});
@@ -0,0 +1,72 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { COLORS, FONT_SIZES, SPACING } from '../../constants/theme';
+import { CommandStage, TrackedCommand } from '../../utils/command-tracker';
+
+interface CommandStatusLineProps {
+  command?: TrackedCommand;
+}
+
+const STAGE_LABELS: Record<CommandStage, string> = {
+  queued: '⏳ Queued',
+  sent: '📤 Sent to server',
+  delivered: '📶 Delivered to device',
+  executed: '✅ Executed',
+  failed: '❌ Failed',
+  timeout: '⌛ No confirmation',
+};
+
+const STAGE_COLORS: Record<CommandStage, string> = {
+  queued: COLORS.gray400,
+  sent: COLORS.info,
+  delivered: COLORS.info,
+  executed: COLORS.success,
+  failed: COLORS.danger,
+  timeout: COLORS.warning,
+};
+
+const PROGRESS: CommandStage[] = ['queued', 'sent', 'delivered', 'executed'];
+
+export const CommandStatusLine: React.FC<CommandStatusLineProps> = ({ command }) => {
+  if (!command) return null;
+
+  const color = STAGE_COLORS[command.stage];
+  const reached = PROGRESS.indexOf(command.stage);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.steps}>
+        {PROGRESS.map((stage, index) => (
+          <View
+            key={stage}
+            style={[styles.step, { backgroundColor: index <= reached ? color : 'rgba(255,255,255,0.15)' }]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color }]}>
+        {command.command}: {STAGE_LABELS[command.stage]}
+        {command.detail ? ` · ${command.detail}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.sm,
+    gap: SPACING.xs,
+  },
+  steps: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+  },
+  step: {
+    flex: 1,
+    height: 3,
+    borderRadius: 2,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useTrackedCommands } from '../../hooks/useTrackedCommands';
+import { DEVICE_COMMANDS, DeviceCommandDefinition, DeviceCommandName, getCommandDefinition, validateCommandValue } from '../../utils/device-commands';
+import { Button } from './Button';
+import { Card } from './Card';
+import { CommandStatusLine } from './CommandStatusLine';
+
+interface DeviceCommandPanelProps {
+  deviceId: string;
+  // Same path as the other controls, so queueing and errors are handled there
+  onSend: (command: DeviceCommandName, value: string) => Promise<void>;
+  sending?: string | null;
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+const DEFAULT_VALUES = Object.fromEntries(
+  DEVICE_COMMANDS.map((definition) => [definition.command, String(definition.param.defaultValue)])
+) as Record<DeviceCommandName, string>;
+
+interface PendingConfirmation {
+  definition: DeviceCommandDefinition;
+  value: string;
+  message: string;
+}
+
+// A form per catalog command; the device's current settings aren't reported, so fields start at the defaults
+export const DeviceCommandPanel: React.FC<DeviceCommandPanelProps> = ({ deviceId, onSend, sending, disabled, style }) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [values, setValues] = useState<Record<DeviceCommandName, string>>(DEFAULT_VALUES);
+  const [errors, setErrors] = useState<Partial<Record<DeviceCommandName, string>>>({});
+  // Asked in-app rather than with Alert.alert, which has no buttons on web
+  const [confirming, setConfirming] = useState<PendingConfirmation | null>(null);
+  const trackedCommands = useTrackedCommands(deviceId);
+  const lastCommand = trackedCommands.find((cmd) => !!getCommandDefinition(cmd.command));
+
+  const setValue = (command: DeviceCommandName, value: string) => {
+    setValues((prev) => ({ ...prev, [command]: value }));
+    setErrors((prev) => ({ ...prev, [command]: undefined }));
+  };
+
+  const send = async (definition: DeviceCommandDefinition) => {
+    const value = values[definition.command].trim();
+    const error = validateCommandValue(definition, value);
+    if (error) {
+      setErrors((prev) => ({ ...prev, [definition.command]: error }));
+      return;
+    }
+    const confirmation = definition.confirm?.(value);
+    if (confirmation) {
+      setConfirming({ definition, value, message: confirmation });
+      return;
+    }
+    await onSend(definition.command, value);
+  };
+
+  const sendConfirmed = async () => {
+    if (!confirming) return;
+    setConfirming(null);
+    await onSend(confirming.definition.command, confirming.value);
+  };
+
+  const renderParam = (definition: DeviceCommandDefinition) => {
+    const { command, param } = definition;
+    if (param.type === 'choice') {
+      return (
+        <View style={styles.optionRow}>
+          {param.options.map((option) => {
+            const active = values[command] === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.option,
+                  { borderColor: active ? COLORS.primary : themedColors.border },
+                  active && styles.optionActive,
+                ]}
+                onPress={() => setValue(command, option.value)}
+              >
+                <Text style={[styles.optionText, { color: themedColors.text }]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      );
+    }
+    return (
+      <View style={styles.numberRow}>
+        <TextInput
+          style={[styles.input, {
+            borderColor: errors[command] ? COLORS.danger : isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+            color: themedColors.text,
+            backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+          }]}
+          value={values[command]}
+          onChangeText={(text) => setValue(command, text)}
+          keyboardType="number-pad"
+          maxLength={String(param.max).length}
+          accessibilityLabel={param.label}
+        />
+        <Text style={[styles.unit, { color: themedColors.textSecondary }]}>
+          {param.unit} · {param.min}–{param.max}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Card style={style}>
+      <View style={styles.container}>
+        <Text style={[styles.title, { color: themedColors.text }]}>Device Configuration</Text>
+
+        {DEVICE_COMMANDS.map((definition) => (
+          <View key={definition.command} style={[styles.row, { borderTopColor: themedColors.border }]}>
+            <Text style={[styles.commandTitle, { color: themedColors.text }]}>{definition.title}</Text>
+            <Text style={[styles.description, { color: themedColors.textSecondary }]}>{definition.description}</Text>
+            {renderParam(definition)}
+            {!!errors[definition.command] && <Text style={styles.errorText}>{errors[definition.command]}</Text>}
+            <Button
+              title="Apply"
+              onPress={() => send(definition)}
+              loading={sending === definition.command}
+              disabled={disabled || (!!sending && sending !== definition.command)}
+              variant="secondary"
+              style={styles.applyButton}
+            />
+          </View>
+        ))}
+
+        <CommandStatusLine command={lastCommand} />
+      </View>
+
+      <Modal visible={!!confirming} animationType="fade" transparent onRequestClose={() => setConfirming(null)}>
+        <View style={[styles.overlay, { backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.dialog, {
+            backgroundColor: isDark ? 'rgba(20,20,30,0.95)' : 'rgba(255,255,255,0.95)',
+            borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+          }]}>
+            <Text style={[styles.dialogTitle, { color: themedColors.text }]}>{confirming?.definition.title}</Text>
+            <Text style={[styles.dialogMessage, { color: themedColors.textSecondary }]}>{confirming?.message}</Text>
+            <Button title="Send" onPress={sendConfirmed} style={styles.dialogButton} />
+            <Button title="Cancel" variant="glass" onPress={() => setConfirming(null)} style={styles.dialogButton} />
+          </View>
+        </View>
+      </Modal>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.xs,
+  },
+  row: {
+    paddingTop: SPACING.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: SPACING.xs,
+  },
+  commandTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: FONT_SIZES.sm,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.full,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+  },
+  optionActive: {
+    backgroundColor: 'rgba(99,102,241,0.1)',
+  },
+  optionText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  numberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  input: {
+    width: 96,
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    fontSize: FONT_SIZES.md,
+  },
+  unit: {
+    fontSize: FONT_SIZES.sm,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.danger,
+  },
+  applyButton: {
+    alignSelf: 'flex-start',
+    marginTop: SPACING.xs,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  dialog: {
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.xl,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 1,
+  },
+  dialogTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: SPACING.sm,
+  },
+  dialogMessage: {
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+  },
+  dialogButton: {
+    marginBottom: SPACING.sm,
+  },
+});
@@ -0,0 +1,151 @@
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import React, { useEffect, useRef, useState } from 'react';
+import { Linking, Modal, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING } from '../../constants/theme';
+import { DevicePairing, parseDeviceLabel } from '../../utils/device-pairing';
+import { Button } from './Button';
+
+interface DeviceLabelScannerProps {
+  visible: boolean;
+  onScanned: (pairing: DevicePairing) => void;
+  // Also the "type it in instead" path
+  onClose: () => void;
+}
+
+const DEFAULT_HINT = 'Point the camera at the QR code or barcode on the tracker label';
+
+export const DeviceLabelScanner: React.FC<DeviceLabelScannerProps> = ({ visible, onScanned, onClose }) => {
+  const insets = useSafeAreaInsets();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [hint, setHint] = useState(DEFAULT_HINT);
+  // The camera keeps firing for the same code; only the first match counts
+  const handled = useRef(false);
+  const lastRejected = useRef<string | null>(null);
+  const askedPermission = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    handled.current = false;
+    lastRejected.current = null;
+    askedPermission.current = false;
+    setHint(DEFAULT_HINT);
+  }, [visible]);
+
+  // Ask once per opening; after a denial the button below asks again
+  useEffect(() => {
+    if (!visible || askedPermission.current || !permission || permission.granted || !permission.canAskAgain) return;
+    askedPermission.current = true;
+    requestPermission();
+  }, [visible, permission, requestPermission]);
+
+  const handleScan = ({ data }: BarcodeScanningResult) => {
+    if (handled.current || data === lastRejected.current) return;
+    const pairing = parseDeviceLabel(data);
+    if (!pairing) {
+      lastRejected.current = data;
+      setHint("That code isn't a tracker label. Try the one on the device.");
+      return;
+    }
+    handled.current = true;
+    onScanned(pairing);
+  };
+
+  const renderPermission = () => (
+    <View style={styles.permission}>
+      <Text style={styles.title}>Camera access needed</Text>
+      <Text style={styles.hint}>
+        {permission?.canAskAgain === false
+          ? 'Camera access was turned off. Enable it in Settings to scan labels, or enter the ID manually.'
+          : 'Allow camera access to scan the label on your tracker.'}
+      </Text>
+      {permission?.canAskAgain === false ? (
+        <Button title="Open Settings" onPress={() => Linking.openSettings()} style={styles.button} />
+      ) : (
+        <Button title="Allow Camera" onPress={requestPermission} style={styles.button} />
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <>
+            <CameraView
+              style={StyleSheet.absoluteFill}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr', 'datamatrix', 'code128', 'code39'] }}
+              onBarcodeScanned={visible ? handleScan : undefined}
+            />
+            <View style={styles.overlay} pointerEvents="none">
+              <View style={styles.frame} />
+              <Text style={[styles.hint, styles.hintOnCamera]}>{hint}</Text>
+            </View>
+          </>
+        ) : (
+          renderPermission()
+        )}
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + SPACING.lg }]}>
+          <Button title="Enter ID Manually" variant="glass" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.black,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 3,
+    borderColor: COLORS.primary,
+    marginBottom: SPACING.lg,
+  },
+  permission: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  title: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    marginBottom: SPACING.sm,
+  },
+  hint: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+  },
+  hintOnCamera: {
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    overflow: 'hidden',
+  },
+  button: {
+    marginTop: SPACING.lg,
+    alignSelf: 'stretch',
+  },
+  footer: {
+    position: 'absolute',
+    left: SPACING.lg,
+    right: SPACING.lg,
+    bottom: 0,
+  },
+});
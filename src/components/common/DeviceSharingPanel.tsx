@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useAppLock } from '../../contexts/AppLockContext';
+import { useTheme } from '../../contexts/ThemeContext';
+import { deviceAPI, DeviceShare } from '../../services/api';
+import { DEVICE_ROLE_LABELS, SHARE_ROLES } from '../../utils/device-roles';
+import { createLogger } from '../../utils/logger';
+import { Button } from './Button';
+import { Card } from './Card';
+
+const log = createLogger('DeviceSharing');
+
+interface DeviceSharingPanelProps {
+  deviceId: string;
+  deviceName?: string;
+  style?: ViewStyle;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const getErrorMessage = (error: any, fallback: string) => error.response?.data?.detail || fallback;
+
+// Owner-only card: who else has access, invites and revoking
+export const DeviceSharingPanel: React.FC<DeviceSharingPanelProps> = ({ deviceId, deviceName, style }) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const { requireUnlock } = useAppLock();
+  const [supported, setSupported] = useState(false);
+  const [shares, setShares] = useState<DeviceShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<DeviceShare['role']>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [busyShareId, setBusyShareId] = useState<number | null>(null);
+
+  const loadShares = useCallback(async () => {
+    try {
+      const isSupported = await deviceAPI.supportsSharing();
+      setSupported(isSupported);
+      if (isSupported) setShares(await deviceAPI.getShares(deviceId));
+    } catch (error) {
+      log.warn(`Failed to load shares for ${deviceId}:`, error);
+    } finally {
+      setLoading(false);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const invite = async () => {
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (!(await requireUnlock(`Share ${deviceName || deviceId}`))) return;
+
+    setInviting(true);
+    try {
+      const share = await deviceAPI.shareDevice(deviceId, address, role);
+      setShares((prev) => [...prev.filter((s) => s.id !== share.id), share]);
+      setEmail('');
+      Alert.alert(
+        'Invited',
+        share.status === 'pending'
+          ? `${address} gets access once they accept the invite.`
+          : `${address} now has access.`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to share device'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const changeRole = async (share: DeviceShare) => {
+    const nextRole = SHARE_ROLES.find((r) => r !== share.role) ?? share.role;
+    setBusyShareId(share.id);
+    try {
+      const updated = await deviceAPI.updateShare(deviceId, share.id, nextRole);
+      setShares((prev) => prev.map((s) => (s.id === share.id ? updated : s)));
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to change access'));
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  const revoke = (share: DeviceShare) => {
+    Alert.alert('Revoke Access?', `${share.name || share.email} will no longer see or control this device.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyShareId(share.id);
+          try {
+            await deviceAPI.revokeShare(deviceId, share.id);
+            setShares((prev) => prev.filter((s) => s.id !== share.id));
+          } catch (error: any) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to revoke access'));
+          } finally {
+            setBusyShareId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading || !supported) return null;
+
+  return (
+    <Card style={style}>
+      <View style={styles.container}>
+        <Text style={[styles.title, { color: themedColors.text }]}>Shared With</Text>
+
+        {shares.length === 0 ? (
+          <Text style={[styles.empty, { color: themedColors.textSecondary }]}>Only you have access</Text>
+        ) : (
+          shares.map((share) => (
+            <View key={share.id} style={styles.row}>
+              <View style={styles.info}>
+                <Text style={[styles.person, { color: themedColors.text }]} numberOfLines={1}>
+                  {share.name || share.email}
+                </Text>
+                <Text style={[styles.meta, { color: themedColors.textTertiary }]} numberOfLines={1}>
+                  {share.name ? `${share.email} · ` : ''}
+                  {share.status === 'pending' ? 'Invite pending' : `Since ${new Date(share.created_at).toLocaleDateString()}`}
+                </Text>
+              </View>
+              {busyShareId === share.id ? (
+                <ActivityIndicator color={COLORS.primary} />
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={[styles.roleChip, { borderColor: themedColors.border }]}
+                    onPress={() => changeRole(share)}
+                  >
+                    <Text style={[styles.roleText, { color: themedColors.text }]}>{DEVICE_ROLE_LABELS[share.role]}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.revokeButton} onPress={() => revoke(share)}>
+                    <Text style={styles.revokeText}>Revoke</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          ))
+        )}
+
+        <TextInput
+          style={[styles.input, {
+            borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+            color: themedColors.text,
+            backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+          }]}
+          placeholder="Invite by email"
+          placeholderTextColor={themedColors.textTertiary}
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          editable={!inviting}
+        />
+        <View style={styles.roleRow}>
+          {SHARE_ROLES.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.roleChip,
+                styles.roleOption,
+                { borderColor: role === option ? COLORS.primary : themedColors.border },
+                role === option && styles.roleOptionActive,
+              ]}
+              onPress={() => setRole(option)}
+            >
+              <Text style={[styles.roleText, { color: themedColors.text }]}>{DEVICE_ROLE_LABELS[option]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Button title="Send Invite" onPress={invite} loading={inviting} disabled={!email.trim()} />
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.xs,
+  },
+  empty: {
+    fontSize: FONT_SIZES.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    padding: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  person: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: FONT_SIZES.xs,
+  },
+  roleChip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+  },
+  roleText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  revokeButton: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.danger,
+  },
+  revokeText: {
+    color: COLORS.danger,
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    marginTop: SPACING.sm,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  roleOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+  },
+  roleOptionActive: {
+    backgroundColor: 'rgba(99,102,241,0.1)',
+  },
+});
@@ -0,0 +1,56 @@
+// Environment Badge Component
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING } from '../../constants/theme';
+import { Environment } from '../../utils/environment';
+
+// Always on top so nobody mistakes a test backend for the real one
+export const EnvironmentBadge: React.FC = () => {
+  const insets = useSafeAreaInsets();
+  const [environment, setEnvironment] = useState(Environment.get());
+
+  useEffect(() => {
+    Environment.init().then(setEnvironment);
+    return Environment.subscribe(setEnvironment);
+  }, []);
+
+  if (environment.id === 'production') return null;
+
+  const label = environment.id === 'custom'
+    ? `CUSTOM · ${environment.baseUrl.replace(/^https?:\/\//i, '')}`
+    : environment.label.toUpperCase();
+
+  return (
+    <View style={[styles.container, { top: insets.top + 2 }]} pointerEvents="none">
+      <View style={[styles.badge, environment.id === 'custom' && styles.custom]}>
+        <Text style={styles.text} numberOfLines={1}>{label}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  badge: {
+    maxWidth: '70%',
+    backgroundColor: COLORS.warning,
+    paddingVertical: 2,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  custom: {
+    backgroundColor: COLORS.danger,
+  },
+  text: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.xs,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { COLORS } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('FleetMap');
+
+export interface FleetMarker {
+  deviceId: string;
+  name: string;
+  // Emoji shown next to the name
+  icon: string;
+  lat: number;
+  lon: number;
+  online: boolean;
+  armed: boolean;
+}
+
+interface FleetMapProps {
+  markers: FleetMarker[];
+  onMarkerPress: (deviceId: string) => void;
+  height?: number;
+}
+
+export const getFleetMarkerColor = (marker: Pick<FleetMarker, 'online' | 'armed'>) => {
+  if (!marker.online) return COLORS.offline;
+  return marker.armed ? COLORS.warning : COLORS.online;
+};
+
+// Leaflet + markercluster in a WebView. Markers are pushed in with
+// injectJavaScript so polling updates don't reset the user's zoom.
+export const FleetMap: React.FC<FleetMapProps> = ({ markers, onMarkerPress, height = 320 }) => {
+  const { isDark } = useTheme();
+  const webViewRef = useRef<WebView>(null);
+
+  const html = useMemo(
+    () => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+          <link rel="stylesheet" href="https://unpkg.com/leaflet.markercluster@1.5.3/dist/MarkerCluster.css" />
+          <link rel="stylesheet" href="https://unpkg.com/leaflet.markercluster@1.5.3/dist/MarkerCluster.Default.css" />
+          <style>
+            html, body, #map {
+              margin: 0;
+              padding: 0;
+              width: 100%;
+              height: 100%;
+            }
+            .fleet-marker {
+              display: flex;
+              flex-direction: column;
+              align-items: center;
+            }
+            .fleet-dot {
+              width: 18px;
+              height: 18px;
+              border-radius: 9px;
+              border: 2px solid #FFFFFF;
+              box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+            }
+            .fleet-label {
+              margin-top: 2px;
+              padding: 1px 6px;
+              border-radius: 8px;
+              font: 600 11px sans-serif;
+              white-space: nowrap;
+              background: ${isDark ? 'rgba(20,20,30,0.85)' : 'rgba(255,255,255,0.9)'};
+              color: ${isDark ? '#FFFFFF' : '#111827'};
+            }
+          </style>
+        </head>
+        <body>
+          <div id="map"></div>
+
+          <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+          <script src="https://unpkg.com/leaflet.markercluster@1.5.3/dist/leaflet.markercluster.js"></script>
+          <script>
+            (function() {
+              var map = L.map('map').setView([0, 0], 2);
+
+              L.tileLayer(
+                '${isDark ? 'https://cartodb-basemaps-a.global.ssl.fastly.net/dark_all/{z}/{x}/{y}.png' : 'https://cartodb-basemaps-a.global.ssl.fastly.net/light_all/{z}/{x}/{y}.png'}',
+                {
+                  maxZoom: 19,
+                  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+                }
+              ).addTo(map);
+
+              var cluster = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 });
+              map.addLayer(cluster);
+              var hasFitted = false;
+
+              function escapeHtml(text) {
+                return String(text).replace(/[&<>"']/g, function(c) {
+                  return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+                });
+              }
+
+              window.updateMarkers = function(markers) {
+                cluster.clearLayers();
+                markers.forEach(function(m) {
+                  var icon = L.divIcon({
+                    className: '',
+                    iconSize: [120, 40],
+                    iconAnchor: [60, 11],
+                    html: '<div class="fleet-marker"><div class="fleet-dot" style="background:' + m.color + '"></div>' +
+                      '<div class="fleet-label">' + escapeHtml(m.icon + ' ' + m.name) + '</div></div>'
+                  });
+                  var marker = L.marker([m.lat, m.lon], { icon: icon });
+                  marker.on('click', function() {
+                    window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'select', deviceId: m.deviceId }));
+                  });
+                  cluster.addLayer(marker);
+                });
+
+                // Only frame the fleet once, afterwards the user owns the viewport
+                if (!hasFitted && markers.length > 0) {
+                  map.fitBounds(cluster.getBounds(), { padding: [32, 32], maxZoom: 16 });
+                  hasFitted = true;
+                }
+              };
+            })();
+          </script>
+        </body>
+      </html>
+    `,
+    [isDark]
+  );
+
+  const pushMarkers = useCallback(() => {
+    const payload = JSON.stringify(
+      markers.map((marker) => ({ ...marker, color: getFleetMarkerColor(marker) }))
+    );
+    webViewRef.current?.injectJavaScript(
+      `window.updateMarkers && window.updateMarkers(${payload}); true;`
+    );
+  }, [markers]);
+
+  useEffect(() => {
+    pushMarkers();
+  }, [pushMarkers]);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'select' && message.deviceId) {
+        onMarkerPress(message.deviceId);
+      }
+    } catch (error) {
+      log.warn('Invalid fleet map message:', error);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { height }]}>
+      <WebView
+        ref={webViewRef}
+        originWhitelist={['*']}
+        source={{ html }}
+        onLoadEnd={pushMarkers}
+        onMessage={handleMessage}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    overflow: 'hidden',
+    borderRadius: 12,
+  },
+});
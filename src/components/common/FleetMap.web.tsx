@@ -0,0 +1,88 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { COLORS, SPACING } from '../../constants/theme';
+
+export interface FleetMarker {
+  deviceId: string;
+  name: string;
+  // Emoji shown next to the name
+  icon: string;
+  lat: number;
+  lon: number;
+  online: boolean;
+  armed: boolean;
+}
+
+interface FleetMapProps {
+  markers: FleetMarker[];
+  onMarkerPress: (deviceId: string) => void;
+  height?: number;
+}
+
+export const getFleetMarkerColor = (marker: Pick<FleetMarker, 'online' | 'armed'>) => {
+  if (!marker.online) return COLORS.offline;
+  return marker.armed ? COLORS.warning : COLORS.online;
+};
+
+// Web fallback component - no WebView on web, list positions instead
+export const FleetMap: React.FC<FleetMapProps> = ({ markers, onMarkerPress, height = 320 }) => {
+  return (
+    <View style={[styles.webMapContainer, { height }]}>
+      <Text style={styles.webMapTitle}>📍 Fleet Locations</Text>
+      <ScrollView style={styles.list}>
+        {markers.map((marker) => (
+          <TouchableOpacity
+            key={marker.deviceId}
+            style={styles.row}
+            onPress={() => onMarkerPress(marker.deviceId)}
+          >
+            <View style={[styles.dot, { backgroundColor: getFleetMarkerColor(marker) }]} />
+            <Text style={styles.name}>{marker.icon} {marker.name}</Text>
+            <Text style={styles.coords}>
+              {marker.lat.toFixed(5)}, {marker.lon.toFixed(5)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  webMapContainer: {
+    width: '100%',
+    backgroundColor: COLORS.gray100,
+    borderRadius: 8,
+    padding: SPACING.lg,
+  },
+  webMapTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.gray900,
+    marginBottom: SPACING.md,
+  },
+  list: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.gray900,
+  },
+  coords: {
+    fontSize: 12,
+    color: COLORS.gray700,
+  },
+});
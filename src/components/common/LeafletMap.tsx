@@ -1,7 +1,15 @@
-import React, { useMemo } from "react";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { Linking, StyleSheet, Text, TouchableOpacity, View } from "react-native";
-import { WebView } from "react-native-webview";
+import { WebView, WebViewMessageEvent } from "react-native-webview";
+import { COLORS } from "../../constants/theme";
 import { useTheme } from "../../contexts/ThemeContext";
+import { GeofenceShape } from "../../utils/geofence";
+import { LatLng } from "../../utils/location-history";
+import { createLogger } from "../../utils/logger";
+
+const log = createLogger("LeafletMap");
+
+export type { LatLng };
 
 type LeafletMapProps = {
   latitude: number;
@@ -9,6 +17,16 @@ type LeafletMapProps = {
   zoom?: number;
   deviceId?: string;
   lastStatus?: string;
+  // Emoji drawn in place of the default pin
+  markerIcon?: string;
+  // Route drawn as a polyline, oldest point first
+  track?: LatLng[];
+  // Moving marker used during route playback
+  playbackPosition?: LatLng | null;
+  // Saved safe zones, plus the one currently being drawn
+  geofences?: GeofenceShape[];
+  draftGeofence?: GeofenceShape | null;
+  onMapPress?: (point: LatLng) => void;
 };
 
 export const LeafletMap: React.FC<LeafletMapProps> = ({
@@ -17,8 +35,18 @@ export const LeafletMap: React.FC<LeafletMapProps> = ({
   zoom = 15,
   deviceId,
   lastStatus,
+  markerIcon,
+  track,
+  playbackPosition,
+  geofences,
+  draftGeofence,
+  onMapPress,
 }) => {
   const { isDark } = useTheme();
+  const webViewRef = useRef<WebView>(null);
+  // Where the map opens. Everything that changes later is pushed in with
+  // injectJavaScript, so new samples don't reset the user's zoom or playback.
+  const initialView = useRef({ latitude, longitude, zoom });
   
   const html = useMemo(
     () => `
@@ -37,6 +65,12 @@ export const LeafletMap: React.FC<LeafletMapProps> = ({
               width: 100%;
               height: 100%;
             }
+            .device-marker {
+              font-size: 28px;
+              line-height: 36px;
+              text-align: center;
+              text-shadow: 0 1px 4px rgba(0,0,0,0.5);
+            }
           </style>
         </head>
         <body>
@@ -46,8 +80,8 @@ export const LeafletMap: React.FC<LeafletMapProps> = ({
           <script>
             (function() {
               var map = L.map('map').setView(
-                [${latitude}, ${longitude}],
-                ${zoom}
+                [${initialView.current.latitude}, ${initialView.current.longitude}],
+                ${initialView.current.zoom}
               );
 
               // Use dark or light tiles based on theme
@@ -59,23 +93,183 @@ export const LeafletMap: React.FC<LeafletMapProps> = ({
                 }
               ).addTo(map);
 
-              // Add marker with optional popup
-              var marker = L.marker([${latitude}, ${longitude}]).addTo(map);
-              ${
-                deviceId
-                  ? `marker.bindPopup('<b>${deviceId}</b>${
-                      lastStatus ? '<br>' + lastStatus : ''
-                    }');`
-                  : ''
+              function escapeHtml(text) {
+                return String(text).replace(/[&<>"']/g, function(c) {
+                  return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+                });
+              }
+
+              function drawShape(shape, style) {
+                if (shape.type === 'circle') {
+                  return L.circle([shape.center.lat, shape.center.lon], Object.assign({ radius: shape.radius }, style));
+                }
+                var latLngs = shape.points.map(function(p) { return [p.lat, p.lon]; });
+                if (latLngs.length >= 3) return L.polygon(latLngs, style);
+                if (latLngs.length > 0) return L.polyline(latLngs, style);
+                return null;
               }
+
+              // Device marker with optional popup
+              var marker = null;
+              window.setMarker = function(m) {
+                if (marker) map.removeLayer(marker);
+                marker = L.marker(
+                  [m.lat, m.lon],
+                  m.icon
+                    ? { icon: L.divIcon({ className: '', iconSize: [36, 36], iconAnchor: [18, 18], html: '<div class="device-marker">' + escapeHtml(m.icon) + '</div>' }) }
+                    : {}
+                ).addTo(map);
+                if (m.title) {
+                  marker.bindPopup('<b>' + escapeHtml(m.title) + '</b>' + (m.subtitle ? '<br>' + escapeHtml(m.subtitle) : ''));
+                }
+              };
+
+              // Safe zones, kept underneath the route
+              var zoneLayer = L.featureGroup().addTo(map);
+              window.setGeofences = function(shapes) {
+                zoneLayer.clearLayers();
+                shapes.forEach(function(shape) {
+                  var layer = drawShape(shape, { color: '${COLORS.success}', weight: 2, fillOpacity: 0.15 });
+                  if (layer) zoneLayer.addLayer(layer);
+                });
+                zoneLayer.bringToBack();
+              };
+
+              var draftLayer = null;
+              window.setDraftGeofence = function(shape) {
+                if (draftLayer) {
+                  map.removeLayer(draftLayer);
+                  draftLayer = null;
+                }
+                if (shape) {
+                  draftLayer = drawShape(shape, { color: '${COLORS.accent}', weight: 2, dashArray: '6 4', fillOpacity: 0.1 });
+                  if (draftLayer) draftLayer.addTo(map);
+                }
+              };
+
+              var playbackMarker = null;
+              window.setPlaybackPosition = function(lat, lon) {
+                if (!playbackMarker) {
+                  playbackMarker = L.circleMarker([lat, lon], {
+                    radius: 8,
+                    color: '#FFFFFF',
+                    weight: 2,
+                    fillColor: '${COLORS.accent}',
+                    fillOpacity: 1,
+                  }).addTo(map);
+                } else {
+                  playbackMarker.setLatLng([lat, lon]);
+                }
+              };
+
+              // Route history; framed once, afterwards the user owns the viewport
+              var routeLayer = null;
+              var routeFitted = false;
+              window.setTrack = function(points) {
+                if (routeLayer) {
+                  map.removeLayer(routeLayer);
+                  routeLayer = null;
+                }
+                if (points.length < 2) return;
+                var route = L.polyline(points, {
+                  color: '${COLORS.primary}',
+                  weight: 4,
+                  opacity: 0.8,
+                });
+                var start = L.circleMarker(points[0], {
+                  radius: 5,
+                  color: '${COLORS.success}',
+                  fillOpacity: 1,
+                });
+                routeLayer = L.layerGroup([route, start]).addTo(map);
+                if (playbackMarker) playbackMarker.bringToFront();
+                if (!routeFitted) {
+                  map.fitBounds(route.getBounds(), { padding: [24, 24] });
+                  routeFitted = true;
+                }
+              };
+
+              map.on('click', function(e) {
+                if (window.ReactNativeWebView) {
+                  window.ReactNativeWebView.postMessage(
+                    JSON.stringify({ type: 'press', lat: e.latlng.lat, lon: e.latlng.lng })
+                  );
+                }
+              });
             })();
           </script>
         </body>
       </html>
     `,
-    [latitude, longitude, zoom, deviceId, lastStatus, isDark]
+    [isDark]
   );
 
+  const inject = useCallback((script: string) => {
+    webViewRef.current?.injectJavaScript(`${script}; true;`);
+  }, []);
+
+  const applyMarker = useCallback(() => {
+    const payload = JSON.stringify({
+      lat: latitude,
+      lon: longitude,
+      icon: markerIcon ?? null,
+      title: deviceId ?? null,
+      subtitle: lastStatus ?? null,
+    });
+    inject(`window.setMarker && window.setMarker(${payload})`);
+  }, [inject, latitude, longitude, markerIcon, deviceId, lastStatus]);
+
+  useEffect(() => {
+    applyMarker();
+  }, [applyMarker]);
+
+  const applyTrack = useCallback(() => {
+    const points = JSON.stringify((track || []).map((point) => [point.lat, point.lon]));
+    inject(`window.setTrack && window.setTrack(${points})`);
+  }, [inject, track]);
+
+  useEffect(() => {
+    applyTrack();
+  }, [applyTrack]);
+
+  const applyGeofences = useCallback(() => {
+    inject(`window.setGeofences && window.setGeofences(${JSON.stringify(geofences || [])})`);
+  }, [inject, geofences]);
+
+  useEffect(() => {
+    applyGeofences();
+  }, [applyGeofences]);
+
+  // Move the playback marker without reloading the whole map
+  const applyPlaybackPosition = useCallback(() => {
+    if (!playbackPosition) return;
+    inject(`window.setPlaybackPosition && window.setPlaybackPosition(${playbackPosition.lat}, ${playbackPosition.lon})`);
+  }, [inject, playbackPosition]);
+
+  useEffect(() => {
+    applyPlaybackPosition();
+  }, [applyPlaybackPosition]);
+
+  const applyDraftGeofence = useCallback(() => {
+    inject(`window.setDraftGeofence && window.setDraftGeofence(${JSON.stringify(draftGeofence || null)})`);
+  }, [inject, draftGeofence]);
+
+  useEffect(() => {
+    applyDraftGeofence();
+  }, [applyDraftGeofence]);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    if (!onMapPress) return;
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'press') {
+        onMapPress({ lat: message.lat, lon: message.lon });
+      }
+    } catch (error) {
+      log.warn('Invalid map message:', error);
+    }
+  };
+
   const openInGoogleMaps = () => {
     const url = `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
     Linking.openURL(url);
@@ -83,7 +277,19 @@ export const LeafletMap: React.FC<LeafletMapProps> = ({
 
   return (
     <View style={styles.container}>
-      <WebView originWhitelist={["*"]} source={{ html }} />
+      <WebView
+        ref={webViewRef}
+        originWhitelist={["*"]}
+        source={{ html }}
+        onLoadEnd={() => {
+          applyGeofences();
+          applyTrack();
+          applyMarker();
+          applyPlaybackPosition();
+          applyDraftGeofence();
+        }}
+        onMessage={handleMessage}
+      />
       <TouchableOpacity style={styles.mapsButton} onPress={openInGoogleMaps} activeOpacity={0.8}>
         <Text style={styles.mapsButtonText}>🗺️</Text>
       </TouchableOpacity>
@@ -1,29 +1,52 @@
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
-import { LeafletMap } from './LeafletMap';
+import { GeofenceShape } from '../../utils/geofence';
+import { LatLng, LeafletMap } from './LeafletMap';
 
 interface MapComponentProps {
   latitude: number;
   longitude: number;
-  deviceId: string;
+  zoom?: number;
+  deviceId?: string;
   lastStatus?: string;
+  markerIcon?: string;
+  track?: LatLng[];
+  playbackPosition?: LatLng | null;
+  geofences?: GeofenceShape[];
+  draftGeofence?: GeofenceShape | null;
+  onMapPress?: (point: LatLng) => void;
+  height?: number;
 }
 
 // Leaflet-based map component - WebView with OSM tiles (no Google SDK!)
 export const MapComponent: React.FC<MapComponentProps> = ({
   latitude,
   longitude,
+  zoom = 15,
   deviceId,
   lastStatus,
+  markerIcon,
+  track,
+  playbackPosition,
+  geofences,
+  draftGeofence,
+  onMapPress,
+  height = 250,
 }) => {
   return (
-    <View style={styles.map}>
+    <View style={[styles.map, { height }]}>
       <LeafletMap
         latitude={latitude}
         longitude={longitude}
         deviceId={deviceId}
         lastStatus={lastStatus}
-        zoom={15}
+        markerIcon={markerIcon}
+        track={track}
+        playbackPosition={playbackPosition}
+        geofences={geofences}
+        draftGeofence={draftGeofence}
+        onMapPress={onMapPress}
+        zoom={zoom}
       />
     </View>
   );
@@ -32,6 +55,5 @@ export const MapComponent: React.FC<MapComponentProps> = ({
 const styles = StyleSheet.create({
   map: {
     width: '100%',
-    height: 250,
   },
 });
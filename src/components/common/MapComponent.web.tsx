@@ -1,30 +1,111 @@
-import React from 'react';
-import { Linking, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { Linking, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { COLORS, SPACING } from '../../constants/theme';
+import { GeofenceShape } from '../../utils/geofence';
+import { LatLng } from '../../utils/location-history';
 
 interface MapComponentProps {
   latitude: number;
   longitude: number;
-  deviceId: string;
+  zoom?: number;
+  deviceId?: string;
   lastStatus?: string;
+  markerIcon?: string;
+  track?: LatLng[];
+  playbackPosition?: LatLng | null;
+  geofences?: GeofenceShape[];
+  draftGeofence?: GeofenceShape | null;
+  onMapPress?: (point: LatLng) => void;
+  height?: number;
 }
 
 // Web fallback component - NO react-native-maps import
-export const MapComponent: React.FC<MapComponentProps> = ({ latitude, longitude }) => {
+export const MapComponent: React.FC<MapComponentProps> = ({
+  latitude,
+  longitude,
+  zoom = 15,
+  markerIcon,
+  track,
+  playbackPosition,
+  geofences,
+  onMapPress,
+  height = 250,
+}) => {
+  // During playback the interesting point is the replayed one, not the latest fix
+  const shownLat = playbackPosition?.lat ?? latitude;
+  const shownLon = playbackPosition?.lon ?? longitude;
+  // There's no map to tap, so points are typed in instead
+  const [pointLat, setPointLat] = useState(latitude.toFixed(6));
+  const [pointLon, setPointLon] = useState(longitude.toFixed(6));
+
+  useEffect(() => {
+    setPointLat(latitude.toFixed(6));
+    setPointLon(longitude.toFixed(6));
+  }, [latitude, longitude]);
+
+  const typedPoint = { lat: parseFloat(pointLat), lon: parseFloat(pointLon) };
+  const canPlace = Math.abs(typedPoint.lat) <= 90 && Math.abs(typedPoint.lon) <= 180;
+
   const openInMaps = () => {
-    const url = `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}&zoom=15`;
+    const url = `https://www.openstreetmap.org/?mlat=${shownLat}&mlon=${shownLon}&zoom=${zoom}`;
     Linking.openURL(url);
   };
 
+  if (onMapPress) {
+    return (
+      <View style={[styles.webMapContainer, { height }]}>
+        <Text style={styles.webMapTitle}>📍 Pick a Point</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={pointLat}
+            onChangeText={setPointLat}
+            placeholder="Latitude"
+            inputMode="decimal"
+            accessibilityLabel="Latitude"
+          />
+          <TextInput
+            style={styles.input}
+            value={pointLon}
+            onChangeText={setPointLon}
+            placeholder="Longitude"
+            inputMode="decimal"
+            accessibilityLabel="Longitude"
+          />
+        </View>
+        {!!geofences && geofences.length > 0 && (
+          <Text style={styles.webMapText}>
+            Saved zones: {geofences.length}
+          </Text>
+        )}
+        <TouchableOpacity
+          onPress={() => onMapPress(typedPoint)}
+          disabled={!canPlace}
+          style={[styles.mapButton, !canPlace && styles.mapButtonDisabled]}
+        >
+          <Text style={styles.mapButtonText}>Place Here</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={openInMaps}>
+          <Text style={styles.linkText}>Look it up in OpenStreetMap →</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   return (
-    <View style={styles.webMapContainer}>
-      <Text style={styles.webMapTitle}>📍 Device Location</Text>
+    <View style={[styles.webMapContainer, { height }]}>
+      <Text style={styles.webMapTitle}>{markerIcon ?? '📍'} Device Location</Text>
       <Text style={styles.webMapText}>
-        Latitude: {latitude.toFixed(6)}
+        Latitude: {shownLat.toFixed(6)}
       </Text>
       <Text style={styles.webMapText}>
-        Longitude: {longitude.toFixed(6)}
+        Longitude: {shownLon.toFixed(6)}
       </Text>
+      {!!track && track.length > 1 && (
+        <Text style={styles.webMapText}>
+          Route: {track.length} points
+        </Text>
+      )}
       <TouchableOpacity onPress={openInMaps} style={styles.mapButton}>
         <Text style={styles.mapButtonText}>Open in OpenStreetMap →</Text>
       </TouchableOpacity>
@@ -35,7 +116,6 @@ export const MapComponent: React.FC<MapComponentProps> = ({ latitude, longitude
 const styles = StyleSheet.create({
   webMapContainer: {
     width: '100%',
-    height: 250,
     backgroundColor: COLORS.gray100,
     borderRadius: 8,
     justifyContent: 'center',
@@ -60,9 +140,33 @@ const styles = StyleSheet.create({
     paddingVertical: SPACING.sm,
     borderRadius: 8,
   },
+  mapButtonDisabled: {
+    opacity: 0.5,
+  },
   mapButtonText: {
     color: COLORS.white,
     fontSize: 14,
     fontWeight: '600',
   },
+  inputRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    width: 120,
+    borderWidth: 1,
+    borderColor: COLORS.gray400,
+    borderRadius: 8,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontSize: 14,
+    color: COLORS.gray900,
+    backgroundColor: COLORS.white,
+  },
+  linkText: {
+    marginTop: SPACING.sm,
+    fontSize: 13,
+    color: COLORS.primary,
+  },
 });
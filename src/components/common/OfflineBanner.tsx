@@ -1,19 +1,38 @@
 // Offline Banner Component
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { COLORS, SPACING, FONT_SIZES } from '../../constants/theme';
+import { formatCacheAge } from '../../utils/offline-cache';
 
 interface OfflineBannerProps {
   visible: boolean;
+  // When the data on screen was fetched; null when nothing is cached
+  savedAt?: number | null;
 }
 
-export const OfflineBanner: React.FC<OfflineBannerProps> = ({ visible }) => {
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ visible, savedAt }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep "cached N min ago" current while the banner is up
+  useEffect(() => {
+    if (!visible || savedAt === undefined) return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [visible, savedAt]);
+
   if (!visible) return null;
 
+  let message = 'No Internet Connection';
+  if (savedAt) {
+    message = `Offline · showing data cached ${formatCacheAge(savedAt, now)}`;
+  } else if (savedAt === null) {
+    message = 'Offline · no cached data available';
+  }
+
   return (
     <View style={styles.banner}>
       <Text style={styles.icon}>📡</Text>
-      <Text style={styles.text}>No Internet Connection</Text>
+      <Text style={styles.text}>{message}</Text>
     </View>
   );
 };
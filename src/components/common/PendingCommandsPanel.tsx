@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { CommandQueue, isTerminalCommand, QueuedCommand } from '../../utils/command-queue';
+import { formatCommandValue } from '../../utils/device-commands';
+import { Card } from './Card';
+
+interface PendingCommandsPanelProps {
+  deviceId: string;
+  style?: ViewStyle;
+}
+
+const STATUS_LABELS: Record<QueuedCommand['status'], string> = {
+  pending: '⏳ Waiting for connection',
+  sending: '📤 Sending...',
+  failed: '⚠️ Failed, will retry',
+  success: '✅ Sent',
+  expired: '⌛ Expired, not sent',
+  dropped: '❌ Not sent',
+};
+
+const STATUS_COLORS: Record<QueuedCommand['status'], string> = {
+  pending: COLORS.warning,
+  sending: COLORS.info,
+  failed: COLORS.danger,
+  success: COLORS.success,
+  expired: COLORS.gray400,
+  dropped: COLORS.danger,
+};
+
+export const PendingCommandsPanel: React.FC<PendingCommandsPanelProps> = ({ deviceId, style }) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [commands, setCommands] = useState<QueuedCommand[]>(() =>
+    CommandQueue.getCommandsForDevice(deviceId)
+  );
+
+  useEffect(() => {
+    setCommands(CommandQueue.getCommandsForDevice(deviceId));
+    return CommandQueue.subscribe((queue) => {
+      setCommands(queue.filter((cmd) => cmd.deviceId === deviceId));
+    });
+  }, [deviceId]);
+
+  if (commands.length === 0) return null;
+
+  return (
+    <Card style={style}>
+      <View style={styles.container}>
+        <Text style={[styles.title, { color: themedColors.text }]}>
+          Pending Commands ({commands.length})
+        </Text>
+        {commands.map((cmd) => (
+          <View key={cmd.id} style={[styles.row, { borderLeftColor: STATUS_COLORS[cmd.status] }]}>
+            <View style={styles.info}>
+              <Text style={[styles.command, { color: themedColors.text }]}>
+                {cmd.command}{cmd.value ? ` ${formatCommandValue(cmd.command, cmd.value)}` : ''}
+              </Text>
+              <Text style={[styles.status, { color: STATUS_COLORS[cmd.status] }]}>
+                {STATUS_LABELS[cmd.status]}
+              </Text>
+              <Text style={[styles.meta, { color: themedColors.textTertiary }]}>
+                Queued {new Date(cmd.timestamp).toLocaleTimeString()}
+                {cmd.retryCount > 0 ? ` · ${cmd.retryCount} attempt${cmd.retryCount !== 1 ? 's' : ''}` : ''}
+              </Text>
+              {cmd.status === 'failed' && (
+              <Text style={[styles.meta, { color: themedColors.textTertiary }]}>
+                Next try {new Date(cmd.nextAttemptAt).toLocaleTimeString()} · expires {new Date(cmd.expiresAt).toLocaleTimeString()}
+              </Text>
+            )}
+            {!!cmd.lastError && (cmd.status === 'failed' || cmd.status === 'dropped') && (
+                <Text style={[styles.meta, { color: themedColors.textSecondary }]} numberOfLines={2}>
+                  {cmd.lastError}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={[styles.cancelButton, cmd.status === 'sending' && styles.cancelDisabled]}
+              onPress={() => CommandQueue.cancelCommand(cmd.id)}
+              disabled={cmd.status === 'sending'}
+            >
+              <Text style={styles.cancelText}>{isTerminalCommand(cmd) ? 'Dismiss' : 'Cancel'}</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    padding: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    borderLeftWidth: 3,
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  command: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '500',
+  },
+  meta: {
+    fontSize: FONT_SIZES.xs,
+  },
+  cancelButton: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.danger,
+  },
+  cancelDisabled: {
+    opacity: 0.4,
+  },
+  cancelText: {
+    color: COLORS.danger,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { PIN_LENGTH } from '../../utils/app-lock';
+
+interface PinPadProps {
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  // While set and in the future, input is disabled and a countdown shows
+  lockedUntil?: number | null;
+  // Resolves once the PIN has been checked; the dots clear afterwards
+  onComplete: (pin: string) => void | Promise<void>;
+  onBiometric?: () => void;
+  onCancel?: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export const PinPad: React.FC<PinPadProps> = ({
+  title,
+  subtitle,
+  error,
+  lockedUntil,
+  onComplete,
+  onBiometric,
+  onCancel,
+}) => {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const isLockedOut = !!lockedUntil && lockedUntil > now;
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const press = async (digit: string) => {
+    if (checking || isLockedOut || pin.length >= PIN_LENGTH) return;
+    const next = pin + digit;
+    setPin(next);
+    if (next.length === PIN_LENGTH) {
+      setChecking(true);
+      try {
+        await onComplete(next);
+      } finally {
+        setPin('');
+        setChecking(false);
+      }
+    }
+  };
+
+  const keyStyle = [
+    styles.key,
+    { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' },
+    isLockedOut && styles.keyDisabled,
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: themedColors.text }]}>{title}</Text>
+      {!!subtitle && (
+        <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>{subtitle}</Text>
+      )}
+
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              { borderColor: themedColors.textSecondary },
+              index < pin.length && styles.dotFilled,
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.error}>
+        {isLockedOut
+          ? `Too many attempts. Try again in ${formatRemaining(lockedUntil! - now)}`
+          : error || ' '}
+      </Text>
+
+      <View style={styles.keypad}>
+        {KEYS.map((digit) => (
+          <TouchableOpacity key={digit} style={keyStyle} onPress={() => press(digit)} disabled={isLockedOut}>
+            <Text style={[styles.keyText, { color: themedColors.text }]}>{digit}</Text>
+          </TouchableOpacity>
+        ))}
+        {onBiometric ? (
+          <TouchableOpacity style={styles.key} onPress={onBiometric}>
+            <Text style={styles.keyIcon}>🔏</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.key} />
+        )}
+        <TouchableOpacity style={keyStyle} onPress={() => press('0')} disabled={isLockedOut}>
+          <Text style={[styles.keyText, { color: themedColors.text }]}>0</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.key} onPress={() => setPin(pin.slice(0, -1))} disabled={!pin || checking}>
+          <Text style={[styles.keyIcon, { color: themedColors.text }]}>⌫</Text>
+        </TouchableOpacity>
+      </View>
+
+      {onCancel && (
+        <TouchableOpacity onPress={onCancel} style={styles.cancel}>
+          <Text style={[styles.cancelText, { color: themedColors.textSecondary }]}>Cancel</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginTop: SPACING.xs,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.xl,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 2,
+  },
+  dotFilled: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  error: {
+    color: COLORS.danger,
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginVertical: SPACING.md,
+    minHeight: 20,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 3 * 72 + 2 * SPACING.md,
+    gap: SPACING.md,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: BORDER_RADIUS.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyDisabled: {
+    opacity: 0.4,
+  },
+  keyText: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: '600',
+  },
+  keyIcon: {
+    fontSize: FONT_SIZES.xxl,
+  },
+  cancel: {
+    marginTop: SPACING.lg,
+    padding: SPACING.sm,
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+});
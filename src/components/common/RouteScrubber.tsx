@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { GestureResponderEvent, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { TrackPoint } from '../../utils/location-history';
+
+interface RouteScrubberProps {
+  points: TrackPoint[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  playing: boolean;
+  onTogglePlay: () => void;
+}
+
+const THUMB_SIZE = 18;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+export const RouteScrubber: React.FC<RouteScrubberProps> = ({
+  points,
+  index,
+  onIndexChange,
+  playing,
+  onTogglePlay,
+}) => {
+  const { isDark } = useTheme();
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const lastIndex = Math.max(points.length - 1, 0);
+  const progress = lastIndex > 0 ? index / lastIndex : 0;
+  const current = points[index];
+
+  const seek = (event: GestureResponderEvent) => {
+    if (trackWidth <= 0 || lastIndex === 0) return;
+    const ratio = Math.min(Math.max(event.nativeEvent.locationX / trackWidth, 0), 1);
+    onIndexChange(Math.round(ratio * lastIndex));
+  };
+
+  if (points.length === 0) return null;
+
+  const textColor = isDark ? COLORS.gray200 : COLORS.gray700;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity
+          style={styles.playButton}
+          onPress={onTogglePlay}
+          disabled={points.length < 2}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.playButtonText}>{playing ? '❚❚' : '▶'}</Text>
+        </TouchableOpacity>
+        <View style={styles.currentInfo}>
+          <Text style={[styles.currentTime, { color: textColor }]}>
+            {current ? formatTime(current.timestamp) : '--:--'}
+          </Text>
+          {current?.source === 'alert' && !!current.label && (
+            <Text style={styles.currentLabel}>⚠️ {current.label}</Text>
+          )}
+        </View>
+        <Text style={[styles.counter, { color: textColor }]}>
+          {index + 1}/{points.length}
+        </Text>
+      </View>
+
+      {/* Children ignore touches so locationX is always relative to the track */}
+      <View
+        style={styles.touchArea}
+        onLayout={(event) => setTrackWidth(event.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={seek}
+        onResponderMove={seek}
+      >
+        <View
+          pointerEvents="none"
+          style={[styles.track, { backgroundColor: isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)' }]}
+        >
+          <View style={[styles.progress, { width: `${progress * 100}%` }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: Math.max(progress * trackWidth - THUMB_SIZE / 2, 0) }]}
+        />
+      </View>
+
+      <View style={styles.rangeRow}>
+        <Text style={[styles.rangeText, { color: textColor }]}>{formatTime(points[0].timestamp)}</Text>
+        <Text style={[styles.rangeText, { color: textColor }]}>{formatTime(points[lastIndex].timestamp)}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: SPACING.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButtonText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+  },
+  currentInfo: {
+    flex: 1,
+  },
+  currentTime: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  currentLabel: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.warning,
+  },
+  counter: {
+    fontSize: FONT_SIZES.xs,
+  },
+  touchArea: {
+    height: 32,
+    justifyContent: 'center',
+    marginTop: SPACING.sm,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progress: {
+    height: 4,
+    backgroundColor: COLORS.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: COLORS.accent,
+    borderWidth: 2,
+    borderColor: COLORS.white,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rangeText: {
+    fontSize: FONT_SIZES.xs,
+  },
+});
@@ -1,8 +1,21 @@
+export { AddDeviceWizard } from './AddDeviceWizard';
+export { AlertMiniMap } from './AlertMiniMap';
+export { AlertReviewModal, ReviewStatePill } from './AlertReviewModal';
 export { Button } from './Button';
 export { Card } from './Card';
 export { CircleToggle } from './CircleToggle';
+export { CommandStatusLine } from './CommandStatusLine';
+export { DeviceCommandPanel } from './DeviceCommandPanel';
+export { DeviceLabelScanner } from './DeviceLabelScanner';
+export { DeviceSharingPanel } from './DeviceSharingPanel';
+export { EnvironmentBadge } from './EnvironmentBadge';
+export { FleetMap } from './FleetMap';
 export { GlassView } from './GlassView';
 export { LeafletMap } from './LeafletMap';
 export { MapComponent } from './MapComponent';
+export { OfflineBanner } from './OfflineBanner';
+export { PendingCommandsPanel } from './PendingCommandsPanel';
+export { PinPad } from './PinPad';
+export { RouteScrubber } from './RouteScrubber';
 export { StatusBadge } from './StatusBadge';
 
@@ -115,6 +115,7 @@ export const SHADOWS = {
   },
 };
 
+// Production backend; the active one can be switched at runtime (see utils/environment)
 export const API_BASE_URL = 'https://iot.fyuko.app';
 
 // Helper function to get theme-aware colors
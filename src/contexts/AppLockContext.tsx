@@ -0,0 +1,189 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, Modal, StyleSheet, View } from 'react-native';
+import { PinPad } from '../components/common/PinPad';
+import { getThemedColors } from '../constants/theme';
+import { AppLock, AppLockSettings } from '../utils/app-lock';
+import { useTheme } from './ThemeContext';
+
+interface AppLockContextType {
+  settings: AppLockSettings;
+  isLocked: boolean;
+  /**
+   * Ask for biometrics or the PIN before a sensitive action, regardless of
+   * the idle timeout. Resolves true right away when no lock is set up.
+   */
+  requireUnlock: (reason: string) => Promise<boolean>;
+}
+
+interface UnlockPrompt {
+  reason: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const [settings, setSettings] = useState<AppLockSettings>(AppLock.getSettings());
+  // Covers the app until settings are loaded so nothing flashes before the lock
+  const [checking, setChecking] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
+  const [prompt, setPrompt] = useState<UnlockPrompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const backgroundedAt = useRef<number | null>(null);
+
+  const tryBiometric = useCallback(async (reason: string) => {
+    if (!AppLock.getSettings().biometricsEnabled) return false;
+    return AppLock.authenticateBiometric(reason);
+  }, []);
+
+  const lock = useCallback(async () => {
+    setError(null);
+    setLockedUntil(await AppLock.getLockedUntil());
+    setIsLocked(true);
+    if (await tryBiometric('Unlock TrackTard')) {
+      setIsLocked(false);
+    }
+  }, [tryBiometric]);
+
+  useEffect(() => {
+    AppLock.loadSettings().then((loaded) => {
+      setSettings(loaded);
+      setChecking(false);
+      if (loaded.enabled) lock();
+    });
+    return AppLock.subscribe(setSettings);
+  }, [lock]);
+
+  // Lock again when the app comes back after sitting in the background too long
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (state === 'active' && backgroundedAt.current != null) {
+        const idleFor = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        const current = AppLock.getSettings();
+        if (current.enabled && idleFor >= current.idleTimeoutMs) {
+          lock();
+        }
+      }
+    });
+    return () => subscription.remove();
+  }, [lock]);
+
+  const requireUnlock = useCallback(async (reason: string) => {
+    if (!AppLock.getSettings().enabled) return true;
+    if (await tryBiometric(reason)) return true;
+
+    setError(null);
+    setLockedUntil(await AppLock.getLockedUntil());
+    return new Promise<boolean>((resolve) => setPrompt({ reason, resolve }));
+  }, [tryBiometric]);
+
+  const checkPin = async (pin: string) => {
+    const result = await AppLock.verifyPin(pin);
+    if (result.ok) {
+      setError(null);
+      return true;
+    }
+    setLockedUntil(result.lockedUntil);
+    setError(result.lockedUntil ? null : `Wrong PIN. ${result.attemptsLeft} attempt${result.attemptsLeft !== 1 ? 's' : ''} left`);
+    return false;
+  };
+
+  const closePrompt = (confirmed: boolean) => {
+    prompt?.resolve(confirmed);
+    setPrompt(null);
+  };
+
+  const value: AppLockContextType = {
+    settings,
+    isLocked,
+    requireUnlock,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+
+      {/* A Modal, not an overlay View: modals left open (wizard, review, PIN setup)
+          would otherwise draw above it when the app resumes */}
+      <Modal
+        visible={checking || isLocked}
+        animationType="none"
+        presentationStyle="fullScreen"
+        statusBarTranslucent
+        // Back mustn't dismiss the lock
+        onRequestClose={() => {}}
+      >
+        <View style={[styles.lockScreen, { backgroundColor: themedColors.background }]}>
+          {isLocked && (
+            <PinPad
+              title="🔒 TrackTard is locked"
+              subtitle="Enter your PIN to continue"
+              error={error}
+              lockedUntil={lockedUntil}
+              onComplete={async (pin) => {
+                if (await checkPin(pin)) setIsLocked(false);
+              }}
+              onBiometric={settings.biometricsEnabled
+                ? async () => {
+                    if (await tryBiometric('Unlock TrackTard')) setIsLocked(false);
+                  }
+                : undefined}
+            />
+          )}
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!prompt && !isLocked}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => closePrompt(false)}
+      >
+        <View style={[styles.promptOverlay, { backgroundColor: themedColors.background }]}>
+          <PinPad
+            title="Confirm it's you"
+            subtitle={prompt?.reason}
+            error={error}
+            lockedUntil={lockedUntil}
+            onComplete={async (pin) => {
+              if (await checkPin(pin)) closePrompt(true);
+            }}
+            onBiometric={settings.biometricsEnabled
+              ? async () => {
+                  if (prompt && (await tryBiometric(prompt.reason))) closePrompt(true);
+                }
+              : undefined}
+            onCancel={() => closePrompt(false)}
+          />
+        </View>
+      </Modal>
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within AppLockProvider');
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  lockScreen: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  promptOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,348 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { Alert, Device, deviceAPI, DeviceCurrentStatus } from '../services/api';
+import { RealtimeClient } from '../services/realtime';
+import { CommandTracker } from '../utils/command-tracker';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { applyDeviceOverlay, DeviceMetadata } from '../utils/device-metadata';
+import { GeofenceMonitor } from '../utils/geofence';
+import { isValidCoordinate, LocationHistory } from '../utils/location-history';
+import { createLogger } from '../utils/logger';
+import { CACHE_KEYS, OfflineCache } from '../utils/offline-cache';
+import { isSyntheticAlert, SyntheticAlerts } from '../utils/synthetic-alerts';
+
+const log = createLogger('DeviceStore');
+
+export interface RefreshOptions {
+  // Skip the freshness check (pull-to-refresh, after add/remove)
+  force?: boolean;
+}
+
+interface DeviceContextType {
+  // With local edits from DeviceMetadata applied
+  devices: Device[];
+  statuses: Map<string, DeviceCurrentStatus>;
+  // Newest first, server alerts merged with geofence breaches
+  alerts: Map<string, Alert[]>;
+  devicesLoaded: boolean;
+  // When each piece of data was fetched, keyed by CACHE_KEYS; older than the
+  // session when it came from the offline cache
+  updatedAt: Map<string, number>;
+  // Fill the store from the offline cache; resolves once that's done
+  loadCached: () => Promise<void>;
+  refreshDevices: (options?: RefreshOptions) => Promise<void>;
+  refreshDevice: (deviceId: string, options?: RefreshOptions) => Promise<void>;
+  // Forget everything, including the offline cache (logout, account switch)
+  reset: () => void;
+}
+
+const DeviceContext = createContext<DeviceContextType | undefined>(undefined);
+
+// Data younger than this is served from memory without hitting the API
+const STALE_AFTER_MS = 10000;
+const ALERT_FETCH_CONCURRENCY = 4;
+
+const sortNewestFirst = (list: Alert[]) =>
+  [...list].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+export function DeviceProvider({ children }: { children: React.ReactNode }) {
+  const [serverDevices, setDevices] = useState<Device[]>([]);
+  const [overlays, setOverlays] = useState(DeviceMetadata.getAll());
+  const [statuses, setStatuses] = useState<Map<string, DeviceCurrentStatus>>(new Map());
+  const [alerts, setAlerts] = useState<Map<string, Alert[]>>(new Map());
+  const [devicesLoaded, setDevicesLoaded] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<Map<string, number>>(new Map());
+  const cacheLoad = useRef<Promise<void> | null>(null);
+  const inFlight = useRef(new Map<string, Promise<unknown>>());
+  const fetchedAt = useRef(new Map<string, number>());
+  // Devices whose alert list was loaded since launch or the last return from background
+  const alertsLoaded = useRef(new Set<string>());
+  const serverDeviceIds = useRef<string[]>([]);
+  // Bumped by reset; a fetch started under an older generation must not write its result
+  const generation = useRef(0);
+
+  // Concurrent callers for the same resource share one request
+  const dedupe = useCallback(<T,>(key: string, request: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.current.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const startedIn = generation.current;
+    const promise = request()
+      .then((result) => {
+        if (startedIn === generation.current) fetchedAt.current.set(key, Date.now());
+        return result;
+      })
+      .finally(() => {
+        // After a reset the key may belong to a newer request
+        if (inFlight.current.get(key) === promise) inFlight.current.delete(key);
+      });
+    inFlight.current.set(key, promise);
+    return promise;
+  }, []);
+
+  const isFresh = (key: string) => Date.now() - (fetchedAt.current.get(key) ?? 0) < STALE_AFTER_MS;
+
+  const markUpdated = useCallback((key: string, at: number = Date.now()) => {
+    setUpdatedAt((prev) => new Map(prev).set(key, at));
+  }, []);
+
+  // Persist a successful fetch and record when it happened
+  const persist = useCallback(<T,>(key: string, data: T) => {
+    const now = Date.now();
+    markUpdated(key, now);
+    OfflineCache.set(key, data, now);
+  }, [markUpdated]);
+
+  const loadCached = useCallback(() => {
+    if (!cacheLoad.current) {
+      const startedIn = generation.current;
+      cacheLoad.current = (async () => {
+        const cachedDevices = await OfflineCache.get<Device[]>(CACHE_KEYS.devices);
+        if (!cachedDevices) return;
+
+        const deviceIds = cachedDevices.data.map((device) => device.id);
+        const [cachedStatuses, cachedAlerts] = await Promise.all([
+          Promise.all(deviceIds.map((id) => OfflineCache.get<DeviceCurrentStatus>(CACHE_KEYS.status(id)))),
+          Promise.all(deviceIds.map((id) => OfflineCache.get<Alert[]>(CACHE_KEYS.alerts(id)))),
+        ]);
+        const syntheticAlerts = await Promise.all(deviceIds.map((id) => SyntheticAlerts.getForDevice(id)));
+        if (startedIn !== generation.current) return;
+
+        // Anything already fetched over the network wins over the cache
+        const cachedTimes = new Map<string, number>([[CACHE_KEYS.devices, cachedDevices.savedAt]]);
+        const statusMap = new Map<string, DeviceCurrentStatus>();
+        const alertMap = new Map<string, Alert[]>();
+        deviceIds.forEach((id, index) => {
+          const status = cachedStatuses[index];
+          if (status) {
+            statusMap.set(id, status.data);
+            cachedTimes.set(CACHE_KEYS.status(id), status.savedAt);
+          }
+          const deviceAlerts = cachedAlerts[index];
+          if (deviceAlerts) {
+            alertMap.set(id, sortNewestFirst([...deviceAlerts.data, ...syntheticAlerts[index]]));
+            cachedTimes.set(CACHE_KEYS.alerts(id), deviceAlerts.savedAt);
+          }
+        });
+
+        setDevices((prev) => (prev.length > 0 ? prev : cachedDevices.data));
+        setStatuses((prev) => new Map([...statusMap, ...prev]));
+        setAlerts((prev) => new Map([...alertMap, ...prev]));
+        setUpdatedAt((prev) => new Map([...cachedTimes, ...prev]));
+      })();
+    }
+    return cacheLoad.current;
+  }, []);
+
+  useEffect(() => {
+    loadCached();
+  }, [loadCached]);
+
+  useEffect(() => {
+    const unsubscribe = DeviceMetadata.subscribe(setOverlays);
+    DeviceMetadata.load();
+    return unsubscribe;
+  }, []);
+
+  const devices = useMemo(
+    () => serverDevices.map((device) => applyDeviceOverlay(device, overlays[device.id])),
+    [serverDevices, overlays]
+  );
+
+  const mergeAlerts = useCallback(async (deviceId: string, serverAlerts?: Alert[]) => {
+    const syntheticAlerts = await SyntheticAlerts.getForDevice(deviceId);
+    setAlerts((prev) => {
+      const base = serverAlerts ?? (prev.get(deviceId) || []).filter((a) => !isSyntheticAlert(a));
+      return new Map(prev).set(deviceId, sortNewestFirst([...base, ...syntheticAlerts]));
+    });
+    if (serverAlerts) {
+      persist(CACHE_KEYS.alerts(deviceId), serverAlerts);
+    }
+  }, [persist]);
+
+  // Every status that reaches the app goes through here, whatever its source
+  const applyStatus = useCallback(async (status: DeviceCurrentStatus) => {
+    const startedIn = generation.current;
+    if (isValidCoordinate(status.lat, status.lon)) {
+      const seenAt = status.last_seen ? new Date(status.last_seen).getTime() : NaN;
+      await LocationHistory.addSample(
+        status.device_id,
+        status.lat!,
+        status.lon!,
+        isNaN(seenAt) ? Date.now() : seenAt
+      );
+    }
+    if (startedIn !== generation.current) return;
+    // After the sample is stored, so screens rereading history see it
+    setStatuses((prev) => new Map(prev).set(status.device_id, status));
+    CommandTracker.observeStatus(status);
+    persist(CACHE_KEYS.status(status.device_id), status);
+
+    const breached = await GeofenceMonitor.evaluate(
+      status.device_id,
+      status.name || status.device_id,
+      status.lat,
+      status.lon
+    );
+    if (breached.length > 0) {
+      await mergeAlerts(status.device_id);
+    }
+  }, [mergeAlerts, persist]);
+
+  const fetchStatus = useCallback(
+    (deviceId: string) =>
+      dedupe(`status:${deviceId}`, () => deviceAPI.getDeviceCurrentStatus(deviceId)),
+    [dedupe]
+  );
+
+  // Recent alerts, so the unacknowledged badge counts alarms that fired while
+  // the app was closed. Once per device and foreground; realtime keeps them
+  // current in between, so regular refreshes don't fan out per device.
+  const loadAlerts = useCallback(async (deviceIds: string[], startedIn: number) => {
+    await mapWithConcurrency(deviceIds, ALERT_FETCH_CONCURRENCY, async (deviceId) => {
+      try {
+        const serverAlerts = await dedupe(`alerts:${deviceId}`, () => deviceAPI.getDeviceAlerts(deviceId));
+        if (startedIn === generation.current && Array.isArray(serverAlerts)) {
+          alertsLoaded.current.add(deviceId);
+          await mergeAlerts(deviceId, serverAlerts);
+        }
+      } catch (error) {
+        log.warn(`Failed to load alerts for ${deviceId}:`, error);
+      }
+    });
+  }, [dedupe, mergeAlerts]);
+
+  const refreshDevices = useCallback(async (options: RefreshOptions = {}) => {
+    if (!options.force && isFresh('devices')) return;
+
+    const startedIn = generation.current;
+    const devicesData = await dedupe('devices', () => deviceAPI.getMyDevices());
+    if (startedIn !== generation.current) return;
+    if (!Array.isArray(devicesData)) {
+      log.error('Invalid devices data:', devicesData);
+      return;
+    }
+    setDevices(devicesData);
+    setDevicesLoaded(true);
+    persist(CACHE_KEYS.devices, devicesData);
+
+    const deviceIds = devicesData.map((device) => device.id);
+    serverDeviceIds.current = deviceIds;
+    const results = await dedupe(`statuses:${deviceIds.join(',')}`, () =>
+      deviceAPI.getCurrentStatuses(deviceIds)
+    );
+    for (const status of results) {
+      if (startedIn !== generation.current) return;
+      fetchedAt.current.set(`status:${status.device_id}`, Date.now());
+      await applyStatus(status);
+    }
+
+    await loadAlerts(
+      deviceIds.filter((id) => options.force || !alertsLoaded.current.has(id)),
+      startedIn
+    );
+  }, [dedupe, applyStatus, loadAlerts, persist]);
+
+  const refreshDevice = useCallback(async (deviceId: string, options: RefreshOptions = {}) => {
+    // Make sure the device list exists too, e.g. when opened from a notification
+    refreshDevices().catch(() => {});
+
+    if (!options.force && isFresh(`status:${deviceId}`) && isFresh(`alerts:${deviceId}`)) return;
+
+    const startedIn = generation.current;
+    const [status, serverAlerts] = await Promise.all([
+      fetchStatus(deviceId),
+      dedupe(`alerts:${deviceId}`, () => deviceAPI.getDeviceAlerts(deviceId)),
+    ]);
+    if (startedIn !== generation.current) return;
+    await applyStatus(status);
+    if (Array.isArray(serverAlerts) && startedIn === generation.current) {
+      alertsLoaded.current.add(deviceId);
+      await mergeAlerts(deviceId, serverAlerts);
+    }
+  }, [refreshDevices, fetchStatus, dedupe, applyStatus, mergeAlerts]);
+
+  const reset = useCallback(() => {
+    generation.current++;
+    // The next account reads the cache afresh
+    cacheLoad.current = null;
+    inFlight.current.clear();
+    fetchedAt.current.clear();
+    alertsLoaded.current.clear();
+    serverDeviceIds.current = [];
+    setDevices([]);
+    setStatuses(new Map());
+    setAlerts(new Map());
+    setDevicesLoaded(false);
+    setUpdatedAt(new Map());
+    OfflineCache.clear();
+  }, []);
+
+  // Alarms may have fired while in the background without reaching the socket
+  useEffect(() => {
+    let backgrounded = false;
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        backgrounded = true;
+      } else if (state === 'active' && backgrounded) {
+        backgrounded = false;
+        alertsLoaded.current.clear();
+        loadAlerts(serverDeviceIds.current, generation.current);
+      }
+    });
+    return () => subscription.remove();
+  }, [loadAlerts]);
+
+  // Realtime alerts go into the offline cache too, so the badge survives a restart
+  const cacheAlert = useCallback(async (alert: Alert) => {
+    const startedIn = generation.current;
+    const key = CACHE_KEYS.alerts(alert.device_id);
+    const cached = await OfflineCache.get<Alert[]>(key);
+    const cachedAlerts = cached?.data || [];
+    if (startedIn !== generation.current || cachedAlerts.some((a) => a.id === alert.id)) return;
+    // Keeps the time of the last full fetch; this list is only appended to
+    OfflineCache.set(key, sortNewestFirst([alert, ...cachedAlerts]), cached?.savedAt);
+  }, []);
+
+  // One realtime subscription for the whole app
+  const deviceIdsKey = devices.map((d) => d.id).join(',');
+  useEffect(() => {
+    if (!deviceIdsKey) return;
+
+    return RealtimeClient.subscribe(deviceIdsKey.split(','), {
+      onStatus: (status) => {
+        applyStatus(status);
+      },
+      onAlert: (alert) => {
+        setAlerts((prev) => {
+          const existing = prev.get(alert.device_id) || [];
+          if (existing.some((a) => a.id === alert.id)) return prev;
+          return new Map(prev).set(alert.device_id, sortNewestFirst([alert, ...existing]));
+        });
+        cacheAlert(alert);
+      },
+    });
+  }, [deviceIdsKey, applyStatus, cacheAlert]);
+
+  const value: DeviceContextType = {
+    devices,
+    statuses,
+    alerts,
+    devicesLoaded,
+    updatedAt,
+    loadCached,
+    refreshDevices,
+    refreshDevice,
+    reset,
+  };
+
+  return <DeviceContext.Provider value={value}>{children}</DeviceContext.Provider>;
+}
+
+export function useDevices() {
+  const context = useContext(DeviceContext);
+  if (!context) {
+    throw new Error('useDevices must be used within DeviceProvider');
+  }
+  return context;
+}
@@ -1,6 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useColorScheme } from 'react-native';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Theme');
 
 export type ThemeMode = 'light' | 'dark' | 'auto';
 export type ActiveTheme = 'light' | 'dark';
@@ -30,7 +33,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
           setThemeModeState(saved as ThemeMode);
         }
       } catch (error) {
-        console.error('Failed to load theme preference:', error);
+        log.error('Failed to load theme preference:', error);
       }
     };
     loadTheme();
@@ -50,7 +53,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
       await AsyncStorage.setItem(THEME_STORAGE_KEY, mode);
       setThemeModeState(mode);
     } catch (error) {
-      console.error('Failed to save theme preference:', error);
+      log.error('Failed to save theme preference:', error);
     }
   };
 
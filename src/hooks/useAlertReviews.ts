@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useDevices } from '../contexts/DeviceContext';
+import { AlertReviews } from '../utils/alert-reviews';
+
+// Changes whenever a review does; put it in memo deps that read AlertReviews
+export function useAlertReviews() {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = AlertReviews.subscribe(() => setRevision((r) => r + 1));
+    AlertReviews.load();
+    return unsubscribe;
+  }, []);
+
+  return revision;
+}
+
+// Recent alerts across all devices that nobody has looked at yet
+export function useUnacknowledgedCount() {
+  const { alerts } = useDevices();
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    const update = () => {
+      let total = 0;
+      alerts.forEach((list) => {
+        total += list.filter((alert) => AlertReviews.isUnacknowledged(alert)).length;
+      });
+      setCount(total);
+    };
+
+    update();
+    const unsubscribe = AlertReviews.subscribe(update);
+    AlertReviews.load();
+    return unsubscribe;
+  }, [alerts]);
+
+  return count;
+}
@@ -1,34 +1,73 @@
 import * as Device from 'expo-device';
+import * as Linking from 'expo-linking';
 import * as Notifications from 'expo-notifications';
 import { useEffect, useRef, useState } from 'react';
-import { Platform } from 'react-native';
+import { useDevices } from '../contexts/DeviceContext';
+import { ensureNotificationChannels } from '../utils/local-notifications';
+import { createLogger } from '../utils/logger';
+import {
+  claimNotificationResponse,
+  getNotificationTarget,
+  getNotificationUrl,
+  handleNotificationAction,
+} from '../utils/notification-actions';
+import { NotificationSettings } from '../utils/notification-preferences';
 
-// Setup how notifications act when the app is open
+const log = createLogger('Push');
+
+// Setup how notifications act when the app is open: mutes and quiet hours apply
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-  }),
+  handleNotification: async (notification) => {
+    await NotificationSettings.load();
+    return NotificationSettings.getBehavior(notification.request.content.data);
+  },
 });
 
+export type PushRegistrationStatus =
+  | 'pending'
+  | 'unsupported'
+  | 'denied'
+  | 'registered'
+  | 'synced'
+  | 'sync_failed'
+  | 'error';
+
+export interface PushRegistrationState {
+  status: PushRegistrationStatus;
+  updatedAt: number | null;
+  error?: string;
+}
+
+// Last known registration outcome, for diagnostics
+let registrationState: PushRegistrationState = { status: 'pending', updatedAt: null };
+
+const setRegistrationState = (status: PushRegistrationStatus, error?: string) => {
+  registrationState = { status, updatedAt: Date.now(), error };
+};
+
+export const getPushRegistrationState = (): PushRegistrationState => ({ ...registrationState });
+
+// Called once the token has (or hasn't) reached the server
+export const markPushTokenSynced = (error?: unknown) => {
+  if (error) {
+    setRegistrationState('sync_failed', error instanceof Error ? error.message : String(error));
+  } else {
+    setRegistrationState('synced');
+  }
+};
+
 export function usePushNotifications() {
   const [expoPushToken, setExpoPushToken] = useState<string | undefined>(undefined);
   const [notification, setNotification] = useState<Notifications.Notification | undefined>(undefined);
-  const notificationListener = useRef<Notifications.Subscription>();
-  const responseListener = useRef<Notifications.Subscription>();
+  const { refreshDevice } = useDevices();
+  const refreshDeviceRef = useRef(refreshDevice);
+  refreshDeviceRef.current = refreshDevice;
 
   async function registerForPushNotificationsAsync() {
     let token;
 
-    if (Platform.OS === 'android') {
-      await Notifications.setNotificationChannelAsync('default', {
-        name: 'default',
-        importance: Notifications.AndroidImportance.MAX,
-        vibrationPattern: [0, 250, 250, 250],
-        lightColor: '#FF231F7C',
-      });
-    }
+    // One Android channel per severity, so each can have its own sound
+    await ensureNotificationChannels();
 
     if (Device.isDevice) {
       const { status: existingStatus } = await Notifications.getPermissionsAsync();
@@ -40,7 +79,8 @@ export function usePushNotifications() {
       }
       
       if (finalStatus !== 'granted') {
-        console.log('Failed to get push token for push notification!');
+        log.warn('Failed to get push token for push notification!');
+        setRegistrationState('denied');
         return;
       }
 
@@ -48,30 +88,64 @@ export function usePushNotifications() {
       const devicePushToken = await Notifications.getDevicePushTokenAsync();
       token = devicePushToken.data;
       
-      console.log('✨ My Push Token:', token);
+      // The token itself stays out of the logs
+      log.info('✨ Push token registered');
+      setRegistrationState('registered');
     } else {
-      console.log('Must use physical device for Push Notifications');
+      log.info('Must use physical device for Push Notifications');
+      setRegistrationState('unsupported');
     }
 
     return token;
   }
 
   useEffect(() => {
-    registerForPushNotificationsAsync().then(token => setExpoPushToken(token));
+    registerForPushNotificationsAsync()
+      .then(token => setExpoPushToken(token))
+      .catch(error => {
+        log.error('Push registration failed:', error);
+        setRegistrationState('error', error?.message);
+      });
 
-    // Listen for incoming notifications
-    notificationListener.current = Notifications.addNotificationReceivedListener(notification => {
+    // While the app is open, show the news on screen right away instead of
+    // waiting for the next poll
+    const notificationListener = Notifications.addNotificationReceivedListener(notification => {
       setNotification(notification);
+      const target = getNotificationTarget(notification.request.content.data);
+      if (target) {
+        refreshDeviceRef.current(target.deviceId, { force: true }).catch(error => {
+          log.warn(`Failed to refresh ${target.deviceId} after notification:`, error);
+        });
+      }
     });
 
-    // Listen for user tapping a notification
-    responseListener.current = Notifications.addNotificationResponseReceivedListener(response => {
-      console.log('User tapped notification:', response);
-    });
+    // Action buttons run in place; a plain tap opens the device
+    const handleResponse = async (response: Notifications.NotificationResponse) => {
+      if (!claimNotificationResponse(response)) return;
+      if (await handleNotificationAction(response)) return;
+
+      const target = getNotificationTarget(response.notification.request.content.data);
+      log.info('User tapped notification:', response.notification.request.content.data?.type ?? 'unknown');
+      if (target) {
+        Linking.openURL(getNotificationUrl(target)).catch(error => {
+          log.error('Failed to open notification link:', error);
+        });
+      }
+      Notifications.clearLastNotificationResponseAsync().catch(() => {});
+    };
+
+    const responseListener = Notifications.addNotificationResponseReceivedListener(handleResponse);
+
+    // The tap that launched the app happened before this listener existed
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => {
+        if (response) handleResponse(response);
+      })
+      .catch(error => log.warn('Failed to read launch notification:', error));
 
     return () => {
-      if (notificationListener.current) Notifications.removeNotificationSubscription(notificationListener.current);
-      if (responseListener.current) Notifications.removeNotificationSubscription(responseListener.current);
+      notificationListener.remove();
+      responseListener.remove();
     };
   }, []);
 
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { CommandTracker, TrackedCommand } from '../utils/command-tracker';
+
+// Commands for one device, newest first, kept current as they move through their stages
+export function useTrackedCommands(deviceId: string | undefined) {
+  const [commands, setCommands] = useState<TrackedCommand[]>(() =>
+    deviceId ? CommandTracker.getForDevice(deviceId) : []
+  );
+
+  useEffect(() => {
+    if (!deviceId) return;
+
+    setCommands(CommandTracker.getForDevice(deviceId));
+    return CommandTracker.subscribe(() => {
+      setCommands(CommandTracker.getForDevice(deviceId));
+    });
+  }, [deviceId]);
+
+  return commands;
+}
@@ -0,0 +1,436 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    FlatList,
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { AlertMiniMap } from '../components/common/AlertMiniMap';
+import { AlertReviewModal, ReviewStatePill } from '../components/common/AlertReviewModal';
+import { Card } from '../components/common/Card';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useDevices } from '../contexts/DeviceContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useAlertReviews } from '../hooks/useAlertReviews';
+import { Alert, deviceAPI, getAlertType } from '../services/api';
+import { getIncidentState, groupIncidents, Incident } from '../utils/alert-reviews';
+import { isValidCoordinate } from '../utils/location-history';
+import { createLogger } from '../utils/logger';
+import { isSyntheticAlert } from '../utils/synthetic-alerts';
+
+const log = createLogger('Alerts');
+
+type RangeId = '24h' | '7d' | '30d' | 'all' | 'custom';
+
+const RANGES: { id: RangeId; label: string; days?: number }[] = [
+  { id: '24h', label: '24 hours', days: 1 },
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: 'all', label: 'All time' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Wait for a pause in typing before asking the server
+const SEARCH_DEBOUNCE_MS = 400;
+
+// "2024-05-01" -> local midnight; null while the user is still typing or for days like 02-31
+const parseDay = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// Digits from the number pad -> "2024-05-01", dashes added as they're needed
+const formatDayInput = (text: string) => {
+  const digits = text.replace(/\D/g, '').slice(0, 8);
+  return [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6)].filter(Boolean).join('-');
+};
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+export default function AlertsScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const { devices, devicesLoaded, alerts: recentAlerts, refreshDevices } = useDevices();
+  const paramDeviceId = Array.isArray(params.deviceId) ? params.deviceId[0] : params.deviceId;
+
+  const [deviceFilter, setDeviceFilter] = useState<string | null>(paramDeviceId ?? null);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [range, setRange] = useState<RangeId>('7d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<Incident | null>(null);
+  const reviewRevision = useAlertReviews();
+  // Bumped on every new query so late pages of an old one are dropped
+  const queryId = useRef(0);
+
+  // Opening the tab from a device's detail screen narrows it to that device
+  useEffect(() => {
+    if (paramDeviceId) setDeviceFilter(paramDeviceId);
+  }, [paramDeviceId]);
+
+  useEffect(() => {
+    if (!devicesLoaded) {
+      refreshDevices().catch((err) => log.warn('Failed to load devices:', err));
+    }
+  }, [devicesLoaded, refreshDevices]);
+
+  const deviceNames = useMemo(() => new Map(devices.map((d) => [d.id, d.name || d.id])), [devices]);
+  // Read when a page loads; a device list refresh alone shouldn't restart the query
+  const deviceNamesRef = useRef(deviceNames);
+  deviceNamesRef.current = deviceNames;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Types the user has actually seen, so the chips never offer an empty filter
+  const alertTypes = useMemo(() => {
+    const types = new Set<string>();
+    // History is server-side only; breaches recorded on the phone aren't in it
+    recentAlerts.forEach((list) => list.forEach((a) => {
+      if (!isSyntheticAlert(a)) types.add(getAlertType(a.status));
+    }));
+    alerts.forEach((a) => types.add(getAlertType(a.status)));
+    if (typeFilter) types.add(typeFilter);
+    return [...types].sort();
+  }, [recentAlerts, alerts, typeFilter]);
+
+  // Either end may be left empty; null marks the one that isn't a real day
+  const customDays = useMemo(() => {
+    const from = customFrom ? parseDay(customFrom) : undefined;
+    const to = customTo ? parseDay(customTo) : undefined;
+    let error: string | null = null;
+    if (from === null || to === null) {
+      error = 'Enter dates as YYYY-MM-DD, e.g. 2024-05-01';
+    } else if (from && to && from > to) {
+      error = 'The start date is after the end date';
+    }
+    return { from, to, error };
+  }, [customFrom, customTo]);
+
+  const dateRange = useMemo((): { from?: string; to?: string } | null => {
+    if (range === 'all') return {};
+    if (range === 'custom') {
+      const { from, to, error: rangeError } = customDays;
+      if (rangeError) return null;
+      return {
+        from: from?.toISOString(),
+        // Inclusive of the whole "to" day
+        to: to ? new Date(to.getTime() + DAY_MS - 1).toISOString() : undefined,
+      };
+    }
+    const days = RANGES.find((r) => r.id === range)?.days ?? 7;
+    return { from: new Date(Date.now() - days * DAY_MS).toISOString() };
+  }, [range, customDays]);
+
+  // Pages can split a burst; grouping the whole list stitches it back together
+  const incidents = useMemo(() => groupIncidents(alerts), [alerts]);
+
+  const deviceIdsKey = deviceFilter ?? devices.map((d) => d.id).join(',');
+
+  const loadPage = useCallback(async (before?: number) => {
+    if (!dateRange || !deviceIdsKey) return;
+    const id = before == null ? ++queryId.current : queryId.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await deviceAPI.getAlerts({
+        deviceIds: deviceIdsKey.split(','),
+        status: typeFilter ?? undefined,
+        ...dateRange,
+        search: appliedSearch || undefined,
+        deviceNames: Object.fromEntries(deviceNamesRef.current),
+        before,
+      });
+      if (id !== queryId.current) return;
+      setAlerts((prev) => (before == null ? page.alerts : [...prev, ...page.alerts]));
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      if (id !== queryId.current) return;
+      log.error('Failed to load alert history:', err);
+      setError(err?.response?.data?.detail || 'Failed to load alerts');
+    } finally {
+      if (id === queryId.current) setLoading(false);
+    }
+  }, [deviceIdsKey, typeFilter, dateRange, appliedSearch]);
+
+  useEffect(() => {
+    setAlerts([]);
+    setNextCursor(null);
+    loadPage();
+  }, [loadPage]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPage();
+    setRefreshing(false);
+  };
+
+  const loadMore = () => {
+    if (!loading && nextCursor != null) loadPage(nextCursor);
+  };
+
+  const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+    <TouchableOpacity
+      style={[styles.chip, { borderColor: active ? COLORS.primary : themedColors.border }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: active ? COLORS.primary : themedColors.textSecondary }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderIncident = ({ item }: { item: Incident }) => {
+    const latest = item.alerts[0];
+    const located = item.alerts.find((alert) => isValidCoordinate(alert.lat, alert.lon));
+    const types = [...new Set(item.alerts.map((alert) => getAlertType(alert.status)))];
+
+    return (
+      <TouchableOpacity activeOpacity={0.8} onPress={() => setReviewing(item)}>
+        <Card style={styles.alertCard}>
+          <View style={styles.alertHeader}>
+            <Text style={[styles.alertStatus, { color: themedColors.text }]} numberOfLines={1}>
+              {item.alerts.length > 1 ? `${types.join(', ')} ×${item.alerts.length}` : latest.status || 'Unknown'}
+            </Text>
+            <ReviewStatePill state={getIncidentState(item)} />
+          </View>
+          <Text style={[styles.alertDevice, { color: themedColors.textSecondary }]}>
+            {deviceNames.get(item.deviceId) ?? item.deviceId} · {formatDate(item.startedAt)}
+            {item.alerts.length > 1 ? ` – ${formatDate(item.endedAt)}` : ''}
+          </Text>
+          {located ? (
+            <AlertMiniMap latitude={located.lat!} longitude={located.lon!} style={styles.miniMap} />
+          ) : (
+            <Text style={[styles.noLocation, { color: themedColors.textTertiary }]}>No location recorded</Text>
+          )}
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: themedColors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: themedColors.text }]}>Alerts</Text>
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <TextInput
+          style={[styles.searchInput, { color: themedColors.text, borderColor: themedColors.border }]}
+          placeholder="Search device name, ID or status"
+          placeholderTextColor={themedColors.textTertiary}
+          value={search}
+          onChangeText={setSearch}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Chip label="All devices" active={deviceFilter === null} onPress={() => setDeviceFilter(null)} />
+          {devices.map((device) => (
+            <Chip
+              key={device.id}
+              label={device.name || device.id}
+              active={deviceFilter === device.id}
+              onPress={() => setDeviceFilter(device.id)}
+            />
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Chip label="All types" active={typeFilter === null} onPress={() => setTypeFilter(null)} />
+          {alertTypes.map((type) => (
+            <Chip key={type} label={type} active={typeFilter === type} onPress={() => setTypeFilter(type)} />
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {RANGES.map((r) => (
+            <Chip key={r.id} label={r.label} active={range === r.id} onPress={() => setRange(r.id)} />
+          ))}
+        </ScrollView>
+        {range === 'custom' && (
+          <View style={styles.customRange}>
+            {[
+              { value: customFrom, onChange: setCustomFrom, placeholder: 'From YYYY-MM-DD', invalid: customDays.from === null },
+              { value: customTo, onChange: setCustomTo, placeholder: 'To YYYY-MM-DD', invalid: customDays.to === null },
+            ].map((field) => (
+              <TextInput
+                key={field.placeholder}
+                style={[styles.dateInput, {
+                  color: themedColors.text,
+                  borderColor: field.invalid ? COLORS.danger : themedColors.border,
+                }]}
+                placeholder={field.placeholder}
+                placeholderTextColor={themedColors.textTertiary}
+                value={field.value}
+                onChangeText={(text) => field.onChange(formatDayInput(text))}
+                keyboardType="number-pad"
+                maxLength={10}
+              />
+            ))}
+          </View>
+        )}
+        {range === 'custom' && !!customDays.error && (
+          <Text style={styles.rangeError}>{customDays.error}</Text>
+        )}
+      </View>
+
+      <FlatList
+        data={incidents}
+        renderItem={renderIncident}
+        keyExtractor={(item) => item.id}
+        extraData={reviewRevision}
+        contentContainerStyle={styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.primary} />}
+        ListFooterComponent={
+          loading && !refreshing ? <ActivityIndicator color={COLORS.primary} style={styles.footerSpinner} /> : null
+        }
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: themedColors.textSecondary }]}>
+                {error ?? (dateRange ? 'No alerts match these filters' : 'Fix the dates above to see alerts')}
+              </Text>
+            </View>
+          )
+        }
+      />
+
+      <AlertReviewModal
+        incident={reviewing}
+        deviceName={reviewing ? deviceNames.get(reviewing.deviceId) : undefined}
+        onClose={() => setReviewing(null)}
+        onOpenDevice={(deviceId) => router.push(`/device-detail?deviceId=${deviceId}`)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    paddingTop: SPACING.xxl + 20,
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING.sm,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  filters: {
+    gap: SPACING.xs,
+    paddingBottom: SPACING.sm,
+  },
+  chipRow: {
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.lg,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  customRange: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+  },
+  searchInput: {
+    marginHorizontal: SPACING.lg,
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+  },
+  rangeError: {
+    paddingHorizontal: SPACING.lg,
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.danger,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+  },
+  listContent: {
+    padding: SPACING.lg,
+    // Clear the floating tab bar
+    paddingBottom: SPACING.xxl + 60,
+  },
+  alertCard: {
+    marginBottom: SPACING.md,
+  },
+  alertHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  alertStatus: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  alertDevice: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+    marginBottom: SPACING.sm,
+  },
+  miniMap: {
+    marginTop: SPACING.xs,
+  },
+  noLocation: {
+    fontSize: FONT_SIZES.xs,
+    fontStyle: 'italic',
+  },
+  footerSpinner: {
+    marginVertical: SPACING.lg,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xxl,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+  },
+});
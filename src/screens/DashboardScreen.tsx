@@ -1,7 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BlurView } from 'expo-blur';
 import { useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -14,52 +14,71 @@ import {
     ScrollView,
     StyleSheet,
     Text,
-    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
+import { AddDeviceWizard } from '../components/common/AddDeviceWizard';
 import { AuroraWaves } from '../components/common/AuroraWaves';
 import { Card } from '../components/common/Card';
+import { FleetMap, FleetMarker } from '../components/common/FleetMap';
+import { OfflineBanner } from '../components/common/OfflineBanner';
 import { StatusBadge } from '../components/common/StatusBadge';
 import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useAppLock } from '../contexts/AppLockContext';
+import { useDevices } from '../contexts/DeviceContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { usePushNotifications } from '../hooks/usePushNotifications';
-import { authAPI, Device, deviceAPI, DeviceCurrentStatus } from '../services/api';
+import { useUnacknowledgedCount } from '../hooks/useAlertReviews';
+import { markPushTokenSynced, usePushNotifications } from '../hooks/usePushNotifications';
+import { authAPI, Device, deviceAPI } from '../services/api';
+import { clearAccountData } from '../utils/auth-utils';
+import { CommandQueue } from '../utils/command-queue';
+import { getDeviceIcon } from '../utils/device-metadata';
+import { DEVICE_ROLE_LABELS, getDeviceRole } from '../utils/device-roles';
+import { isValidCoordinate } from '../utils/location-history';
+import { createLogger } from '../utils/logger';
 import { NetworkService } from '../utils/network-utils';
+import { NotificationSettings } from '../utils/notification-preferences';
+import { CACHE_KEYS } from '../utils/offline-cache';
+
+const log = createLogger('Dashboard');
 
 const { width } = Dimensions.get('window');
 
+type DeviceViewMode = 'list' | 'map';
+
 export default function DashboardScreen() {
   const router = useRouter();
   const { isDark } = useTheme();
   const themedColors = getThemedColors(isDark);
   const { expoPushToken } = usePushNotifications();
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [deviceStatuses, setDeviceStatuses] = useState<Map<string, DeviceCurrentStatus>>(
-    new Map()
-  );
+  const {
+    devices,
+    statuses: deviceStatuses,
+    updatedAt,
+    loadCached,
+    refreshDevices,
+    reset: resetDevices,
+  } = useDevices();
+  const { requireUnlock } = useAppLock();
   const [user, setUser] = useState<any>(null);
   const [profileImage, setProfileImage] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [authChecked, setAuthChecked] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [newDeviceId, setNewDeviceId] = useState('');
-  const [newDeviceName, setNewDeviceName] = useState('');
-  const [addingDevice, setAddingDevice] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deviceToDelete, setDeviceToDelete] = useState<Device | null>(null);
   const [deleting, setDeleting] = useState(false);
-  const [alerts, setAlerts] = useState<any[]>([]);
   const [alertsPage, setAlertsPage] = useState(1);
   const [loadingMoreAlerts, setLoadingMoreAlerts] = useState(false);
   const [isOnline, setIsOnline] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
-  const intervalRef = React.useRef<NodeJS.Timeout | null>(null);
+  const [viewMode, setViewMode] = useState<DeviceViewMode>('list');
+  const unacknowledgedCount = useUnacknowledgedCount();
   const isUnmountingRef = React.useRef(false);
 
-  const loadData = async () => {
+  const loadData = async (force = false) => {
     if (isUnmountingRef.current) return; // Don't start new requests if logging out
     
     // Check network first
@@ -67,26 +86,15 @@ export default function DashboardScreen() {
     setIsOnline(online);
     
     if (!online) {
-      // Try to load cached data
-      try {
-        const cachedDevices = await AsyncStorage.getItem('@cached_devices');
-        const cachedUser = await AsyncStorage.getItem('@cached_user');
-        const cachedAlerts = await AsyncStorage.getItem('@cached_alerts');
-        
-        if (cachedDevices) setDevices(JSON.parse(cachedDevices));
-        if (cachedUser) setUser(JSON.parse(cachedUser));
-        if (cachedAlerts) setAlerts(JSON.parse(cachedAlerts));
-        
-        setLoading(false);
-        setAuthChecked(true);
-        setHasError(true);
-        setErrorMessage('You are currently offline. Showing cached data.');
-      } catch (e) {
-        setLoading(false);
-        setAuthChecked(true);
-        setHasError(true);
-        setErrorMessage('You are currently offline and no cached data available.');
-      }
+      // Devices come from the store's offline cache, the user from the saved session
+      await loadCached();
+      const savedUser = await authAPI.getCurrentUser();
+      if (savedUser) setUser(savedUser);
+      
+      setLoading(false);
+      setAuthChecked(true);
+      setHasError(true);
+      setErrorMessage('You are currently offline. Showing cached data.');
       return;
     }
     
@@ -94,52 +102,31 @@ export default function DashboardScreen() {
     setErrorMessage('');
     
     try {
-      const [userData, devicesData] = await Promise.all([
+      // Devices and their statuses live in the shared store
+      const [userData] = await Promise.all([
         authAPI.getCurrentUser(),
-        deviceAPI.getMyDevices(),
+        refreshDevices({ force }),
       ]);
 
       if (isUnmountingRef.current) return; // Don't update state if logged out
       
       setUser(userData);
-      setDevices(devicesData);
       
       // Load profile image
       const savedProfileImage = await AsyncStorage.getItem('@profile_image');
       if (savedProfileImage) {
         setProfileImage(savedProfileImage);
       }
-
-      // Load status for each device
-      const statusPromises = devicesData.map((device) =>
-        deviceAPI.getDeviceCurrentStatus(device.id).catch(() => null)
-      );
-      
-      // Load alerts from all devices
-      const alertsPromises = devicesData.map((device) =>
-        deviceAPI.getDeviceAlerts(device.id).catch(() => [])
-      );
-      const statuses = await Promise.all(statusPromises);
-
-      const statusMap = new Map();
-      statuses.forEach((status, index) => {
-        if (status) {
-          statusMap.set(devicesData[index].id, status);
-        }
-      });
-      
-      if (isUnmountingRef.current) return; // Don't update state if logged out
-      setDeviceStatuses(statusMap);
     } catch (error: any) {
       if (isUnmountingRef.current) return; // Ignore errors if logging out
       // Only log non-auth errors
       if (error.response?.status !== 401) {
-        console.error('Failed to load data:', error);
+        log.error('Failed to load data:', error);
       }
       
       // If 401, redirect to login (storage already cleared by interceptor)
       if (error.response?.status === 401 || error.isAuthError) {
-        console.log('🔐 Session expired, redirecting to login...');
+        log.info('🔐 Session expired, redirecting to login...');
         router.replace('/');
       }
     } finally {
@@ -149,7 +136,7 @@ export default function DashboardScreen() {
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await loadData();
+    await loadData(true);
     setRefreshing(false);
   }, []);
 
@@ -159,9 +146,14 @@ export default function DashboardScreen() {
       if (expoPushToken && user) {
         try {
           await authAPI.syncPushToken(expoPushToken);
-          console.log('✅ Push token synced with server');
+          log.info('✅ Push token synced with server');
+          markPushTokenSynced();
+          // Mutes and quiet hours for pushes that arrive while the app is closed
+          await NotificationSettings.load();
+          await NotificationSettings.sync();
         } catch (e) {
-          console.log('❌ Failed to sync token', e);
+          log.warn('❌ Failed to sync token', e);
+          markPushTokenSynced(e);
         }
       }
     };
@@ -182,7 +174,7 @@ export default function DashboardScreen() {
     const checkAuthAndLoad = async () => {
       const isAuth = await authAPI.isAuthenticated();
       if (!isAuth) {
-        console.log('Not authenticated, redirecting to login');
+        log.info('Not authenticated, redirecting to login');
         router.replace('/');
         return;
       }
@@ -192,56 +184,58 @@ export default function DashboardScreen() {
     
     checkAuthAndLoad();
     
-    // Auto refresh every 10 seconds (only if online)
-    intervalRef.current = setInterval(() => {
-      if (authChecked && isOnline) {
-        loadData();
-      }
-    }, 10000);
-    
     return () => {
       unsubscribe();
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
     };
   }, [authChecked, isOnline, hasError]);
 
   const onlineDevices = devices.filter((d) => deviceStatuses.get(d.id)?.online);
   const offlineDevices = devices.filter((d) => !deviceStatuses.get(d.id)?.online);
 
-  const handleAddDevice = async () => {
-    if (!newDeviceId.trim() || !newDeviceName.trim()) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
+  const fleetMarkers = useMemo<FleetMarker[]>(
+    () =>
+      devices.flatMap((device) => {
+        const status = deviceStatuses.get(device.id);
+        if (!status || !isValidCoordinate(status.lat, status.lon)) return [];
+        return [{
+          deviceId: device.id,
+          name: device.name,
+          icon: getDeviceIcon(device),
+          lat: status.lat!,
+          lon: status.lon!,
+          online: status.online,
+          armed: status.armed_state === 'armed',
+        }];
+      }),
+    [devices, deviceStatuses]
+  );
 
-    setAddingDevice(true);
-    try {
-      await deviceAPI.registerDevice(newDeviceId.trim(), newDeviceName.trim());
-      setShowAddModal(false);
-      setNewDeviceId('');
-      setNewDeviceName('');
-      await loadData();
-      Alert.alert('Success', 'Device added successfully! 🎉');
-    } catch (error: any) {
-      Alert.alert('Error', error.response?.data?.detail || 'Failed to add device');
-    } finally {
-      setAddingDevice(false);
-    }
+  const handleDeviceAdded = () => {
+    loadData(true);
   };
 
   const handleDeleteDevice = async () => {
     if (!deviceToDelete) return;
 
+    // The PIN prompt can't show on top of the delete modal
+    setShowDeleteModal(false);
+    if (!(await requireUnlock(`Remove ${deviceToDelete.name}`))) {
+      setShowDeleteModal(true);
+      return;
+    }
+
     setDeleting(true);
     try {
-      await deviceAPI.removeDevice(deviceToDelete.id);
-      setShowDeleteModal(false);
+      // Someone else's device can't be deleted, only left
+      const isOwner = getDeviceRole(deviceToDelete) === 'owner';
+      if (isOwner) {
+        await deviceAPI.removeDevice(deviceToDelete.id);
+      } else {
+        await deviceAPI.leaveDevice(deviceToDelete.id);
+      }
       setDeviceToDelete(null);
-      await loadData();
-      Alert.alert('Success', 'Device removed from your account');
+      await loadData(true);
+      Alert.alert('Success', isOwner ? 'Device removed from your account' : 'You no longer have access to this device');
     } catch (error: any) {
       Alert.alert('Error', error.response?.data?.detail || 'Failed to remove device');
     } finally {
@@ -264,24 +258,23 @@ export default function DashboardScreen() {
   };
 
   const handleLogout = async () => {
-    console.log('🚪 Logout clicked - clearing local session');
+    log.info('🚪 Logout clicked - clearing local session');
     
-    // Prevent any further async work and stop polling
+    // Prevent any further async work
     isUnmountingRef.current = true;
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    // Drops the cached devices (in memory and offline) and ends their realtime subscription
+    resetDevices();
+    // Queued commands, tracks, safe zones and local alerts belong to this account;
+    // wiped before leaving so a quick re-login can't race it
+    try {
+      await Promise.all([CommandQueue.clearQueue(), clearAccountData()]);
+    } catch (error) {
+      log.error('Failed to clear account data:', error);
     }
-    
+
     // Ensure we actually remove the keys used by authAPI
     try {
-      await AsyncStorage.multiRemove([
-        '@iotux_auth_token',
-        '@iotux_user_data',
-        '@cached_devices',
-        '@cached_user',
-        '@cached_alerts',
-      ]);
+      await authAPI.logout();
     } catch {}
     
     // Redirect to login
@@ -302,6 +295,7 @@ export default function DashboardScreen() {
       )}
 
       <SafeAreaView style={{ flex: 1 }}>
+        <OfflineBanner visible={!isOnline} savedAt={updatedAt.get(CACHE_KEYS.devices) ?? null} />
         <ScrollView
           contentContainerStyle={styles.scrollContent}
           refreshControl={
@@ -381,10 +375,27 @@ export default function DashboardScreen() {
             </Card>
           </View>
 
+          {unacknowledgedCount > 0 && (
+            <TouchableOpacity style={styles.unreviewedBadge} onPress={() => router.push('/alerts')}>
+              <Text style={styles.unreviewedText}>
+                🔔 {unacknowledgedCount} unacknowledged alert{unacknowledgedCount !== 1 ? 's' : ''}
+              </Text>
+              <Text style={styles.unreviewedText}>Review →</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Device List */}
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: themedColors.text }]}>Active Devices</Text>
             <View style={styles.headerActions}>
+              {devices.length > 0 && (
+                <TouchableOpacity
+                  onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+                  style={styles.actionButton}
+                >
+                  <Text style={styles.actionText}>{viewMode === 'list' ? '🗺️ Map' : '☰ List'}</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity onPress={() => setShowAddModal(true)} style={styles.actionButton}>
                 <Text style={styles.actionText}>+ Add New</Text>
               </TouchableOpacity>
@@ -401,6 +412,29 @@ export default function DashboardScreen() {
               <Text style={[styles.emptyText, { color: themedColors.text }]}>No vehicles tracked</Text>
               <Text style={[styles.emptySubtext, { color: themedColors.textSecondary }]}>Add a device to start monitoring</Text>
             </Card>
+          ) : viewMode === 'map' ? (
+            <Card style={styles.fleetMapCard} padding={0}>
+              <FleetMap
+                markers={fleetMarkers}
+                onMarkerPress={(deviceId) => router.push(`/device-detail?deviceId=${deviceId}`)}
+              />
+              <View style={styles.fleetLegend}>
+                <Text style={[styles.legendItem, { color: themedColors.textSecondary }]}>
+                  <Text style={{ color: COLORS.online }}>●</Text> Disarmed
+                </Text>
+                <Text style={[styles.legendItem, { color: themedColors.textSecondary }]}>
+                  <Text style={{ color: COLORS.warning }}>●</Text> Armed
+                </Text>
+                <Text style={[styles.legendItem, { color: themedColors.textSecondary }]}>
+                  <Text style={{ color: COLORS.offline }}>●</Text> Offline
+                </Text>
+                {fleetMarkers.length < devices.length && (
+                  <Text style={[styles.legendItem, { color: themedColors.textTertiary }]}>
+                    {devices.length - fleetMarkers.length} without location
+                  </Text>
+                )}
+              </View>
+            </Card>
           ) : (
             devices.map((device) => {
               const status = deviceStatuses.get(device.id);
@@ -412,7 +446,7 @@ export default function DashboardScreen() {
                 >
                   <Card style={styles.deviceRow}>
                     <View style={styles.iconContainer}>
-                      <Text style={{ fontSize: 24 }}>🛵</Text>
+                      <Text style={{ fontSize: 24 }}>{getDeviceIcon(device)}</Text>
                     </View>
                     <View style={styles.deviceInfo}>
                       <Text style={[styles.deviceName, { color: themedColors.text }]}>{device.name}</Text>
@@ -428,87 +462,11 @@ export default function DashboardScreen() {
         </ScrollView>
       </SafeAreaView>
 
-      {/* Add Device Modal */}
-      <Modal
+      <AddDeviceWizard
         visible={showAddModal}
-        animationType="slide"
-        transparent={true}
-        onRequestClose={() => setShowAddModal(false)}
-      >
-        <View style={[styles.modalOverlay, { backgroundColor: isDark ? 'rgba(0, 0, 0, 0.8)' : 'rgba(0, 0, 0, 0.5)' }]}>
-          <View style={[styles.modalContent, { 
-            backgroundColor: isDark ? 'rgba(20,20,30,0.95)' : 'rgba(255,255,255,0.95)',
-            borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
-          }]}>
-            <Text style={[styles.modalTitle, { color: themedColors.text }]}>Add New Device</Text>
-            <Text style={[styles.modalSubtitle, { color: themedColors.textSecondary }]}>
-              Enter your device ID and a friendly name
-            </Text>
-
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, { color: themedColors.text }]}>Device ID</Text>
-              <TextInput
-                style={[styles.input, {
-                  borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
-                  color: themedColors.text,
-                  backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
-                }]}
-                placeholder="e.g., MOTOR-ABC123"
-                placeholderTextColor={themedColors.textTertiary}
-                value={newDeviceId}
-                onChangeText={setNewDeviceId}
-                autoCapitalize="characters"
-                editable={!addingDevice}
-              />
-            </View>
-
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, { color: themedColors.text }]}>Device Name</Text>
-              <TextInput
-                style={[styles.input, {
-                  borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
-                  color: themedColors.text,
-                  backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
-                }]}
-                placeholder="e.g., My Honda Beat"
-                placeholderTextColor={themedColors.textTertiary}
-                value={newDeviceName}
-                onChangeText={setNewDeviceName}
-                editable={!addingDevice}
-              />
-            </View>
-
-            <View style={styles.modalActions}>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.cancelButton, {
-                  backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
-                  borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
-                }]}
-                onPress={() => {
-                  setShowAddModal(false);
-                  setNewDeviceId('');
-                  setNewDeviceName('');
-                }}
-                disabled={addingDevice}
-              >
-                <Text style={[styles.cancelButtonText, { color: themedColors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.modalButton, styles.addButton]}
-                onPress={handleAddDevice}
-                disabled={addingDevice}
-              >
-                {addingDevice ? (
-                  <ActivityIndicator color="#fff" />
-                ) : (
-                  <Text style={styles.addButtonText}>Add Device</Text>
-                )}
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
+        onClose={() => setShowAddModal(false)}
+        onAdded={handleDeviceAdded}
+      />
 
       {/* Delete Device Modal */}
       <Modal
@@ -548,7 +506,10 @@ export default function DashboardScreen() {
                   ]}>
                     {device.name}
                   </Text>
-                  <Text style={[styles.deviceSelectorId, { color: themedColors.textTertiary }]}>{device.id}</Text>
+                  <Text style={[styles.deviceSelectorId, { color: themedColors.textTertiary }]}>
+                    {device.id}
+                    {getDeviceRole(device) !== 'owner' ? ` · Shared, ${DEVICE_ROLE_LABELS[getDeviceRole(device)].toLowerCase()}` : ''}
+                  </Text>
                 </TouchableOpacity>
               ))}
             </View>
@@ -690,6 +651,21 @@ const styles = StyleSheet.create({
     gap: SPACING.md,
     marginBottom: SPACING.md,
   },
+  unreviewedBadge: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: COLORS.danger,
+    borderRadius: BORDER_RADIUS.full,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  unreviewedText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
   statCard: {
     flex: 1,
     alignItems: 'center',
@@ -740,6 +716,20 @@ const styles = StyleSheet.create({
     marginLeft: SPACING.md,
     fontWeight: '300',
   },
+  fleetMapCard: {
+    overflow: 'hidden',
+    marginBottom: SPACING.sm,
+  },
+  fleetLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.md,
+    padding: SPACING.md,
+  },
+  legendItem: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
   emptyCard: {
     alignItems: 'center',
     paddingVertical: SPACING.xxl,
@@ -782,24 +772,6 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.xl,
     textAlign: 'center',
   },
-  inputGroup: {
-    marginBottom: SPACING.lg,
-  },
-  inputLabel: {
-    fontSize: FONT_SIZES.sm,
-    fontWeight: '600',
-    color: COLORS.gray200, // Will be overridden inline
-    marginBottom: SPACING.xs,
-  },
-  input: {
-    borderWidth: 1,
-    borderColor: COLORS.glassBorder, // Will be overridden inline
-    borderRadius: BORDER_RADIUS.md,
-    padding: SPACING.md,
-    fontSize: FONT_SIZES.md,
-    color: COLORS.white, // Will be overridden inline
-    backgroundColor: 'rgba(255,255,255,0.05)', // Will be overridden inline
-  },
   modalActions: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -823,14 +795,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: FONT_SIZES.md,
   },
-  addButton: {
-    backgroundColor: COLORS.primary,
-  },
-  addButtonText: {
-    color: COLORS.white,
-    fontWeight: '600',
-    fontSize: FONT_SIZES.md,
-  },
   deleteButton: {
     backgroundColor: '#ef4444',
   },
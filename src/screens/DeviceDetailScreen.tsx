@@ -1,10 +1,11 @@
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
     Dimensions,
+    Image,
     RefreshControl,
     ScrollView,
     StyleSheet,
@@ -12,14 +13,37 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
+import { AlertReviewModal, ReviewStatePill } from '../components/common/AlertReviewModal';
 import { Button } from '../components/common/Button';
 import { Card } from '../components/common/Card';
 import { CircleToggle } from '../components/common/CircleToggle';
+import { CommandStatusLine } from '../components/common/CommandStatusLine';
+import { DeviceCommandPanel } from '../components/common/DeviceCommandPanel';
+import { DeviceSharingPanel } from '../components/common/DeviceSharingPanel';
 import { MapComponent } from '../components/common/MapComponent';
+import { OfflineBanner } from '../components/common/OfflineBanner';
+import { PendingCommandsPanel } from '../components/common/PendingCommandsPanel';
+import { RouteScrubber } from '../components/common/RouteScrubber';
 import { StatusBadge } from '../components/common/StatusBadge';
 import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useAppLock } from '../contexts/AppLockContext';
+import { useDevices } from '../contexts/DeviceContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { Alert as DeviceAlert, deviceAPI, DeviceCurrentStatus } from '../services/api';
+import { useAlertReviews } from '../hooks/useAlertReviews';
+import { useTrackedCommands } from '../hooks/useTrackedCommands';
+import { getIncidentState, groupIncidents, Incident } from '../utils/alert-reviews';
+import { CommandQueue, QueuedCommand } from '../utils/command-queue';
+import { isFinalStage } from '../utils/command-tracker';
+import { getDeviceIcon, VEHICLE_TYPES } from '../utils/device-metadata';
+import { DEVICE_ROLE_LABELS, getDevicePermissions, getDeviceRole } from '../utils/device-roles';
+import { Geofence, GeofenceStore } from '../utils/geofence';
+import { buildTrack, isValidCoordinate, LocationHistory, TrackPoint } from '../utils/location-history';
+import { createLogger } from '../utils/logger';
+import { NetworkService } from '../utils/network-utils';
+import { CACHE_KEYS } from '../utils/offline-cache';
+
+const log = createLogger('DeviceDetail');
+
 const { width } = Dimensions.get('window');
 
 interface LastValidLocation {
@@ -28,6 +52,17 @@ interface LastValidLocation {
   timestamp: Date;
 }
 
+type MapMode = 'live' | 'history';
+
+const HISTORY_WINDOWS = [
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '6h', ms: 6 * 60 * 60 * 1000 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+];
+const PLAYBACK_STEP_MS = 600;
+// Older incidents live in the Alerts tab
+const RECENT_INCIDENTS = 5;
+
 export default function DeviceDetailScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
@@ -35,18 +70,56 @@ export default function DeviceDetailScreen() {
   const themedColors = getThemedColors(isDark);
   // Safely get deviceId, handle array case
   const deviceId = Array.isArray(params.deviceId) ? params.deviceId[0] : params.deviceId;
+  // Set when opened from an alert notification
+  const focusAlertId = Number(Array.isArray(params.alertId) ? params.alertId[0] : params.alertId) || null;
 
-  const [deviceStatus, setDeviceStatus] = useState<DeviceCurrentStatus | null>(null);
-  const [alerts, setAlerts] = useState<DeviceAlert[]>([]);
+  const { devices, statuses, alerts: alertsByDevice, updatedAt, loadCached, refreshDevice } = useDevices();
+  const { requireUnlock } = useAppLock();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [sending, setSending] = useState<string | null>(null);
-  const [alertsPage, setAlertsPage] = useState(1);
   const [error, setError] = useState<string | null>(null);
-  const [lastValidLocation, setLastValidLocation] = useState<LastValidLocation | null>(null);
-  const isTogglingRef = useRef(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [mapMode, setMapMode] = useState<MapMode>('live');
+  const [historyWindowMs, setHistoryWindowMs] = useState(HISTORY_WINDOWS[0].ms);
+  const [historySamples, setHistorySamples] = useState<TrackPoint[]>([]);
+  const [playbackIndex, setPlaybackIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  // Optimistic armed state, shown until the device reports back
+  const [pendingArmState, setPendingArmState] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<Incident | null>(null);
+  useAlertReviews();
+
+  // Controls follow the access the owner granted; the server enforces the same
+  const device = devices.find((item) => item.id === deviceId);
+  const role = getDeviceRole(device);
+  const { canControl, canManage } = getDevicePermissions(role);
+
+  const storedStatus = deviceId ? statuses.get(deviceId) ?? null : null;
+  const deviceStatus = useMemo(
+    () => (storedStatus && pendingArmState ? { ...storedStatus, armed_state: pendingArmState } : storedStatus),
+    [storedStatus, pendingArmState]
+  );
+  const alerts = useMemo(
+    () => (deviceId ? alertsByDevice.get(deviceId) : undefined) ?? [],
+    [alertsByDevice, deviceId]
+  );
+  const allIncidents = useMemo(() => groupIncidents(alerts), [alerts]);
+  const incidents = allIncidents.slice(0, RECENT_INCIDENTS);
+  const focusedAlertId = useRef<number | null>(null);
 
-  const loadData = useCallback(async () => {
+  // Open the alert from the notification for review once it has loaded
+  useEffect(() => {
+    if (!focusAlertId || focusedAlertId.current === focusAlertId) return;
+    const incident = allIncidents.find((i) => i.alerts.some((alert) => alert.id === focusAlertId));
+    if (incident) {
+      focusedAlertId.current = focusAlertId;
+      setReviewing(incident);
+    }
+  }, [focusAlertId, allIncidents]);
+
+  const loadData = useCallback(async (force = false) => {
     if (!deviceId) {
       setError('Device ID is missing.');
       setLoading(false);
@@ -54,62 +127,18 @@ export default function DeviceDetailScreen() {
     }
 
     try {
-      const [statusData, alertsData] = await Promise.all([
-        deviceAPI.getDeviceCurrentStatus(deviceId),
-        deviceAPI.getDeviceAlerts(deviceId),
-      ]);
-
-      // Ensure data is valid before setting state
-      // Skip update if we're in the middle of toggling (keep optimistic update)
-      if (statusData && !isTogglingRef.current) {
-        setDeviceStatus(statusData);
-        
-        // Update last valid location if we have valid coordinates from current status
-        if (statusData.lat != null && statusData.lon != null && 
-            !(statusData.lat === 0 && statusData.lon === 0)) {
-          setLastValidLocation({
-            lat: statusData.lat,
-            lon: statusData.lon,
-            timestamp: new Date(),
-          });
-        }
+      const online = await NetworkService.checkConnection();
+      setIsOffline(!online);
+      if (!online) {
+        await loadCached();
+        setError('You are offline and this device has no cached data.');
+        return;
       }
-      
-      if (Array.isArray(alertsData)) {
-        setAlerts([...alertsData].reverse()); // Show newest first safely
-        
-        // Whenever current status has no valid location, check alerts for last valid location
-        if (statusData && (statusData.lat == null || statusData.lon == null || 
-            (statusData.lat === 0 && statusData.lon === 0))) {
-          // Find the most recent alert with valid (non-zero) coordinates
-          // alertsData is already in order from API (oldest to newest), so find from the end
-          const validAlert = [...alertsData].reverse().find(alert => 
-            alert.lat != null && alert.lon != null && 
-            !(alert.lat === 0 && alert.lon === 0)
-          );
-          
-          if (validAlert && validAlert.created_at) {
-            const alertDate = new Date(validAlert.created_at);
-            console.log('Setting last valid location:', {
-              lat: validAlert.lat,
-              lon: validAlert.lon,
-              created_at: validAlert.created_at,
-              parsedDate: alertDate,
-              now: new Date(),
-            });
-            setLastValidLocation({
-              lat: validAlert.lat!,
-              lon: validAlert.lon!,
-              timestamp: alertDate,
-            });
-          }
-        }
-      }
-      
-      setAlertsPage(1);
+
+      await refreshDevice(deviceId, { force });
       setError(null);
     } catch (err: any) {
-      console.error('Failed to load device data:', err);
+      log.error('Failed to load device data:', err);
       if (err.response?.status === 401) {
         router.replace('/login');
       } else {
@@ -119,71 +148,163 @@ export default function DeviceDetailScreen() {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [deviceId, router]);
+  }, [deviceId, router, loadCached, refreshDevice]);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
-    loadData();
+    loadData(true);
   }, [loadData]);
 
   useEffect(() => {
-    setLoading(true);
     loadData();
+  }, [loadData]);
 
-    // Auto refresh every 10 seconds
-    const interval = setInterval(loadData, 10000);
-    return () => clearInterval(interval);
+  // Back online: fetch fresh data instead of showing the cache
+  useEffect(() => {
+    return NetworkService.subscribe((online) => {
+      if (online) loadData(true);
+      else setIsOffline(true);
+    });
   }, [loadData]);
 
-  const sendCommand = async (command: string) => {
+  // The store records samples and checks zones on every status; reread them here
+  useEffect(() => {
     if (!deviceId) return;
+
+    let cancelled = false;
+    Promise.all([GeofenceStore.getForDevice(deviceId), LocationHistory.getSamples(deviceId)]).then(
+      ([deviceGeofences, samples]) => {
+        if (cancelled) return;
+        setGeofences(deviceGeofences);
+        setHistorySamples(samples);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId, storedStatus]);
+
+  // Newest fix from either polled status samples or alerts
+  const lastValidLocation = useMemo<LastValidLocation | null>(() => {
+    const latest = buildTrack(alerts, historySamples, 0).pop();
+    return latest ? { lat: latest.lat, lon: latest.lon, timestamp: new Date(latest.timestamp) } : null;
+  }, [alerts, historySamples]);
+
+  const track = useMemo(
+    () => buildTrack(alerts, historySamples, Date.now() - historyWindowMs),
+    [alerts, historySamples, historyWindowMs]
+  );
+
+  // Keep the scrubber inside the track when polling changes its length
+  useEffect(() => {
+    setPlaybackIndex((prev) => Math.min(prev, Math.max(track.length - 1, 0)));
+  }, [track.length]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setPlaybackIndex((prev) => Math.min(prev + 1, Math.max(track.length - 1, 0)));
+    }, PLAYBACK_STEP_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, track.length]);
+
+  useEffect(() => {
+    if (isPlaying && playbackIndex >= track.length - 1) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, playbackIndex, track.length]);
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Restart from the beginning once the route has been fully replayed
+    if (playbackIndex >= track.length - 1) {
+      setPlaybackIndex(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const selectMapMode = (mode: MapMode) => {
+    setMapMode(mode);
+    setIsPlaying(false);
+    if (mode === 'history') {
+      setPlaybackIndex(Math.max(track.length - 1, 0));
+    }
+  };
+
+  const selectHistoryWindow = (ms: number) => {
+    setHistoryWindowMs(ms);
+    setIsPlaying(false);
+    setPlaybackIndex(0);
+  };
+
+  const trackedCommands = useTrackedCommands(deviceId);
+  const armCommand = trackedCommands.find((cmd) => cmd.command === 'ARM' || cmd.command === 'DISARM');
+  const controlCommand = trackedCommands.find((cmd) => cmd.command === 'BUZZ' || cmd.command === 'REQUEST_POSITION');
+
+  // Drop the optimistic armed state once the device has answered one way or another
+  const armCommandStage = armCommand?.stage;
+  useEffect(() => {
+    if (!deviceId || !armCommandStage || !isFinalStage(armCommandStage)) return;
+    setPendingArmState(null);
+    refreshDevice(deviceId, { force: true }).catch(() => {});
+  }, [deviceId, armCommandStage, refreshDevice]);
+
+  // Every command goes through the queue so nothing is lost when the send fails.
+  // Resolves to the queue entry if it's still waiting, undefined once delivered.
+  const queueCommand = async (command: string, value?: string) => {
+    const id = await CommandQueue.addCommand(deviceId!, command, value);
+    return CommandQueue.getCommand(id);
+  };
+
+  const describeQueued = (command: string, queued: QueuedCommand) => {
+    if (queued.status === 'dropped') {
+      return queued.lastError || `Failed to send "${command}"`;
+    }
+    return queued.status === 'failed'
+      ? `${queued.lastError || `Failed to send "${command}"`}. It will be retried automatically.`
+      : `You're offline. "${command}" will be sent when the connection is back.`;
+  };
+
+  const sendCommand = async (command: string, value?: string) => {
+    if (!deviceId || !canControl) return;
     setSending(command);
     try {
-      await deviceAPI.sendCommand(deviceId, command);
-      Alert.alert('Success', `Command "${command}" sent successfully`);
-    } catch (error: any) {
-      Alert.alert('Error', error.response?.data?.detail || 'Failed to send command');
+      const queued = await queueCommand(command, value);
+      // Delivery and execution show up in the status line under the buttons
+      if (queued) {
+        Alert.alert(queued.status === 'pending' ? 'Queued' : 'Error', describeQueued(command, queued));
+      }
     } finally {
       setSending(null);
     }
   };
 
   const handleArmToggle = async (shouldArm: boolean) => {
-    if (!deviceId) return;
+    if (!deviceId || !canControl) return;
     const command = shouldArm ? 'ARM' : 'DISARM';
+    if (!shouldArm && !(await requireUnlock(`Disarm ${deviceId}`))) return;
     setSending('toggle');
-    isTogglingRef.current = true;
     
     // Optimistic update - update UI immediately
-    if (deviceStatus) {
-      setDeviceStatus({
-        ...deviceStatus,
-        armed_state: shouldArm ? 'armed' : 'disarmed',
-      });
-    }
+    setPendingArmState(shouldArm ? 'armed' : 'disarmed');
     
     try {
-      // Send the ARM/DISARM command using the existing endpoint
-      await deviceAPI.sendCommand(deviceId, command);
-      Alert.alert('Success', `Device ${shouldArm ? 'ARMED' : 'DISARMED'}`);
-      // Wait for backend to process, then allow refresh
-      setTimeout(() => {
-        isTogglingRef.current = false;
-      }, 1000);
-    } catch (error: any) {
-      Alert.alert('Error', error.response?.data?.detail || 'Failed to toggle armed state');
-      // Revert optimistic update on error
-      isTogglingRef.current = false;
-      await loadData();
+      const queued = await queueCommand(command);
+      // Once sent, the optimistic state stays until the device confirms (see effect above)
+      if (queued) {
+        // Not delivered yet, show the real state until it is
+        setPendingArmState(null);
+        Alert.alert(queued.status === 'pending' ? 'Queued' : 'Error', describeQueued(command, queued));
+      }
     } finally {
       setSending(null);
     }
   };
 
-  const loadMoreAlerts = () => {
-    setAlertsPage((prev) => prev + 1);
-  };
-
   const isDeviceOnline = deviceStatus?.online ?? false;
   const lastSeenSeconds = deviceStatus?.seconds_since_seen;
   
@@ -220,24 +341,17 @@ export default function DeviceDetailScreen() {
   };
 
   // Determine which coordinates to display
-  const hasCurrentLocation = deviceStatus && deviceStatus.lat != null && 
-                            deviceStatus.lon != null && 
-                            !(deviceStatus.lat === 0 && deviceStatus.lon === 0);
-  
-  console.log('DeviceDetailScreen - Display Logic:', {
-    hasCurrentLocation,
-    deviceStatusLat: deviceStatus?.lat,
-    deviceStatusLon: deviceStatus?.lon,
-    lastValidLocation,
-  });
+  const hasCurrentLocation = deviceStatus && isValidCoordinate(deviceStatus.lat, deviceStatus.lon);
   
+  const playbackPoint = mapMode === 'history' ? track[playbackIndex] : undefined;
   const displayLocation = hasCurrentLocation 
     ? { lat: deviceStatus.lat!, lon: deviceStatus.lon!, isCurrent: true }
     : lastValidLocation 
     ? { lat: lastValidLocation.lat, lon: lastValidLocation.lon, isCurrent: false, timestamp: lastValidLocation.timestamp }
     : null;
 
-  if (loading && !refreshing) {
+  // Cached data renders immediately; the spinner is only for a cold start
+  if (loading && !deviceStatus && !refreshing) {
     return (
       <View style={[styles.container, styles.centerContent]}>
         <ActivityIndicator size="large" color={COLORS.primary} />
@@ -246,7 +360,7 @@ export default function DeviceDetailScreen() {
     );
   }
 
-  if (error) {
+  if (error && !deviceStatus) {
     return (
       <View style={[styles.container, styles.centerContent]}>
         <Text style={styles.errorText}>⚠️ {error}</Text>
@@ -272,6 +386,11 @@ export default function DeviceDetailScreen() {
         />
       </View>
 
+      <OfflineBanner
+        visible={isOffline}
+        savedAt={deviceId ? updatedAt.get(CACHE_KEYS.status(deviceId)) ?? null : null}
+      />
+
       <ScrollView
         contentContainerStyle={styles.content}
         refreshControl={
@@ -280,15 +399,33 @@ export default function DeviceDetailScreen() {
       >
         {/* Device Info Card */}
         <Card style={styles.infoCard}>
+          {!!device?.photo_url && <Image source={{ uri: device.photo_url }} style={styles.devicePhoto} />}
           <View style={styles.deviceHeader}>
-            <Text style={[styles.deviceName, { color: themedColors.text }]}>{deviceStatus?.name || deviceId}</Text>
+            <Text style={[styles.deviceName, { color: themedColors.text }]}>
+              {getDeviceIcon(device)} {device?.name || deviceStatus?.name || deviceId}
+            </Text>
+            {canManage && (
+              <TouchableOpacity onPress={() => router.push(`/device-settings?deviceId=${deviceId}`)}>
+                <Text style={styles.editLink}>⚙️ Edit</Text>
+              </TouchableOpacity>
+            )}
           </View>
+          {!!(device?.plate || device?.vehicle_type) && (
+            <Text style={[styles.lastStatus, { color: themedColors.textSecondary }]}>
+              {[VEHICLE_TYPES.find((type) => type.id === device.vehicle_type)?.label, device.plate].filter(Boolean).join(' · ')}
+            </Text>
+          )}
           {!!deviceStatus?.last_status && (
             <Text style={[styles.lastStatus, { color: themedColors.textSecondary }]}>Status: {deviceStatus.last_status}</Text>
           )}
           <Text style={[styles.lastSeen, { color: themedColors.textSecondary }, !isDeviceOnline && styles.offlineText]}>
             Last seen: {lastSeenText}
           </Text>
+          {role !== 'owner' && (
+            <Text style={[styles.lastSeen, { color: themedColors.textSecondary }]}>
+              Shared with you · {DEVICE_ROLE_LABELS[role]}
+            </Text>
+          )}
           
           {/* Offline Warning */}
           {!isDeviceOnline && (
@@ -301,8 +438,84 @@ export default function DeviceDetailScreen() {
           )}
         </Card>
 
+        {/* Map Mode */}
+        <View style={styles.modeRow}>
+          {(['live', 'history'] as MapMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.modeChip, mapMode === mode && styles.modeChipActive]}
+              onPress={() => selectMapMode(mode)}
+            >
+              <Text style={[styles.modeChipText, { color: mapMode === mode ? COLORS.white : themedColors.textSecondary }]}>
+                {mode === 'live' ? '📍 Live' : '🕒 History'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.modeChip}
+            onPress={() => router.push(`/geofences?deviceId=${deviceId}`)}
+          >
+            <Text style={[styles.modeChipText, { color: themedColors.textSecondary }]}>
+              🛡️ Safe Zones{geofences.length > 0 ? ` (${geofences.length})` : ''}
+            </Text>
+          </TouchableOpacity>
+          {mapMode === 'history' && HISTORY_WINDOWS.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.modeChip, historyWindowMs === option.ms && styles.modeChipActive]}
+              onPress={() => selectHistoryWindow(option.ms)}
+            >
+              <Text style={[styles.modeChipText, { color: historyWindowMs === option.ms ? COLORS.white : themedColors.textSecondary }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Map Card */}
-        {displayLocation ? (
+        {mapMode === 'history' ? (
+          track.length > 0 ? (
+            <>
+              <Card style={styles.mapCard} padding={0}>
+                <MapComponent
+                  latitude={track[track.length - 1].lat}
+                  longitude={track[track.length - 1].lon}
+                  deviceId={deviceId || ''}
+                  lastStatus={deviceStatus?.last_status || undefined}
+                  markerIcon={getDeviceIcon(device)}
+                  track={track}
+                  playbackPosition={playbackPoint}
+                  geofences={geofences}
+                />
+                {!!playbackPoint && (
+                  <View style={styles.mapOverlay}>
+                    <Text style={[styles.coordinates, { color: themedColors.text }]}>
+                      📍 {playbackPoint.lat.toFixed(6)}, {playbackPoint.lon.toFixed(6)}
+                    </Text>
+                  </View>
+                )}
+              </Card>
+              <Card style={styles.scrubberCard}>
+                <RouteScrubber
+                  points={track}
+                  index={playbackIndex}
+                  onIndexChange={(index) => {
+                    setIsPlaying(false);
+                    setPlaybackIndex(index);
+                  }}
+                  playing={isPlaying}
+                  onTogglePlay={togglePlayback}
+                />
+              </Card>
+            </>
+          ) : (
+            <Card style={styles.mapCard}>
+              <Text style={[styles.noLocation, { color: themedColors.textSecondary }]}>
+                No location history in this time window
+              </Text>
+            </Card>
+          )
+        ) : displayLocation ? (
           <>
             <Card style={styles.mapCard} padding={0}>
               <MapComponent
@@ -310,6 +523,8 @@ export default function DeviceDetailScreen() {
                 longitude={displayLocation.lon}
                 deviceId={deviceId || ''}
                 lastStatus={deviceStatus?.last_status || undefined}
+                markerIcon={getDeviceIcon(device)}
+                geofences={geofences}
               />
               <View style={styles.mapOverlay}>
                 <Text style={[styles.coordinates, { color: themedColors.text }]}>
@@ -344,35 +559,63 @@ export default function DeviceDetailScreen() {
           <CircleToggle
             isArmed={deviceStatus?.armed_state === 'armed'}
             onToggle={handleArmToggle}
-            disabled={!isDeviceOnline}
+            disabled={!isDeviceOnline || !canControl}
             loading={sending === 'toggle'}
           />
+          {!canControl && (
+            <Text style={[styles.viewOnlyText, { color: themedColors.textSecondary }]}>
+              You have view-only access. Ask the owner for control.
+            </Text>
+          )}
+          <CommandStatusLine command={armCommand} />
         </Card>
 
         {/* Other Control Buttons */}
-        <Card style={[styles.controlCard, !isDeviceOnline && styles.disabledCard].filter(Boolean) as any}>
-          <Text style={[styles.cardTitle, { color: themedColors.text }]}>Device Controls</Text>
-          <View style={styles.controlGrid}>
-            <Button
-              title="Buzz Alarm"
-              onPress={() => sendCommand('BUZZ')}
-              loading={sending === 'BUZZ'}
-              disabled={!isDeviceOnline}
-              variant="primary"
-              size="medium"
-              style={[styles.controlButton, !isDeviceOnline && styles.disabledButton].filter(Boolean) as any}
-            />
-            <Button
-              title="Request Position"
-              onPress={() => sendCommand('REQUEST_POSITION')}
-              loading={sending === 'REQUEST_POSITION'}
-              disabled={!isDeviceOnline}
-              variant="secondary"
-              size="medium"
-              style={[styles.controlButton, !isDeviceOnline && styles.disabledButton].filter(Boolean) as any}
-            />
-          </View>
-        </Card>
+        {canControl && (
+          <Card style={[styles.controlCard, !isDeviceOnline && styles.disabledCard].filter(Boolean) as any}>
+            <Text style={[styles.cardTitle, { color: themedColors.text }]}>Device Controls</Text>
+            <View style={styles.controlGrid}>
+              <Button
+                title="Buzz Alarm"
+                onPress={() => sendCommand('BUZZ')}
+                loading={sending === 'BUZZ'}
+                disabled={!isDeviceOnline}
+                variant="primary"
+                size="medium"
+                style={[styles.controlButton, !isDeviceOnline && styles.disabledButton].filter(Boolean) as any}
+              />
+              <Button
+                title="Request Position"
+                onPress={() => sendCommand('REQUEST_POSITION')}
+                loading={sending === 'REQUEST_POSITION'}
+                disabled={!isDeviceOnline}
+                variant="secondary"
+                size="medium"
+                style={[styles.controlButton, !isDeviceOnline && styles.disabledButton].filter(Boolean) as any}
+              />
+            </View>
+            <CommandStatusLine command={controlCommand} />
+          </Card>
+        )}
+
+        {/* Typed configuration commands */}
+        {!!deviceId && canControl && (
+          <DeviceCommandPanel
+            deviceId={deviceId}
+            onSend={sendCommand}
+            sending={sending}
+            disabled={!isDeviceOnline}
+            style={styles.controlCard}
+          />
+        )}
+
+        {/* Commands waiting to be delivered */}
+        {!!deviceId && <PendingCommandsPanel deviceId={deviceId} style={styles.controlCard} />}
+
+        {/* Sharing, owners only */}
+        {!!deviceId && canManage && (
+          <DeviceSharingPanel deviceId={deviceId} deviceName={deviceStatus?.name} style={styles.controlCard} />
+        )}
 
         {/* Alerts History */}
         <Card style={styles.alertsCard}>
@@ -381,35 +624,47 @@ export default function DeviceDetailScreen() {
             <Text style={[styles.noAlerts, { color: themedColors.textSecondary }]}>No alerts yet</Text>
           ) : (
             <View style={styles.alertsList}>
-              {alerts.slice(0, alertsPage * 5).map((alert) => (
-                <View key={alert.id} style={styles.alertItem}>
-                  <View style={styles.alertHeader}>
-                    <Text style={[styles.alertStatus, { color: themedColors.text }]}>{alert.status || 'Unknown'}</Text>
+              {incidents.map((incident) => {
+                const alert = incident.alerts[0];
+                return (
+                  <TouchableOpacity key={incident.id} style={styles.alertItem} onPress={() => setReviewing(incident)}>
+                    <View style={styles.alertHeader}>
+                      <Text style={[styles.alertStatus, { color: themedColors.text }]}>
+                        {alert.status || 'Unknown'}
+                        {incident.alerts.length > 1 ? ` ×${incident.alerts.length}` : ''}
+                      </Text>
+                      <ReviewStatePill state={getIncidentState(incident)} />
+                    </View>
                     <Text style={[styles.alertTime, { color: themedColors.textSecondary }]}>
-                      {alert.created_at ? formatDate(alert.created_at) : 'N/A'}
-                    </Text>
-                  </View>
-                  {alert.lat != null && alert.lon != null && (
-                    <Text style={[styles.alertLocation, { color: themedColors.textSecondary }]}>
-                      📍 {alert.lat.toFixed(6)}, {alert.lon.toFixed(6)}
+                      {formatDate(incident.startedAt)}
+                      {incident.alerts.length > 1 ? ` – ${formatDate(incident.endedAt)}` : ''}
                     </Text>
-                  )}
-                </View>
-              ))}
+                    {alert.lat != null && alert.lon != null && (
+                      <Text style={[styles.alertLocation, { color: themedColors.textSecondary }]}>
+                        📍 {alert.lat.toFixed(6)}, {alert.lon.toFixed(6)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
               
-              {alerts.length > alertsPage * 5 && (
-                <TouchableOpacity
-                  style={styles.loadMoreButton}
-                  onPress={loadMoreAlerts}
-                >
-                  <Text style={[styles.loadMoreText, { color: themedColors.textSecondary }]}>Load More</Text>
-                  <Text style={styles.loadMoreIcon}>↓</Text>
-                </TouchableOpacity>
-              )}
+              <TouchableOpacity
+                style={styles.loadMoreButton}
+                onPress={() => router.push(`/alerts?deviceId=${deviceId}`)}
+              >
+                <Text style={[styles.loadMoreText, { color: themedColors.textSecondary }]}>Full History</Text>
+                <Text style={styles.loadMoreIcon}>→</Text>
+              </TouchableOpacity>
             </View>
           )}
         </Card>
       </ScrollView>
+
+      <AlertReviewModal
+        incident={reviewing}
+        deviceName={deviceStatus?.name}
+        onClose={() => setReviewing(null)}
+      />
     </View>
   );
 }
@@ -508,6 +763,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  modeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  modeChip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.glassBorder,
+  },
+  modeChipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  modeChipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  scrubberCard: {
+    marginBottom: SPACING.md,
+  },
   locationWarningCard: {
     marginBottom: SPACING.md,
     backgroundColor: 'rgba(255, 165, 0, 0.15)',
@@ -599,6 +878,18 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.lg,
     color: COLORS.primary,
   },
+  devicePhoto: {
+    width: '100%',
+    height: 160,
+    borderRadius: BORDER_RADIUS.md,
+    marginBottom: SPACING.md,
+  },
+  editLink: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.sm,
+  },
   deviceHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -629,6 +920,11 @@ const styles = StyleSheet.create({
     color: COLORS.danger,
     fontWeight: '500',
   },
+  viewOnlyText: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
   disabledCard: {
     opacity: 0.6,
   },
@@ -0,0 +1,419 @@
+import * as ImagePicker from 'expo-image-picker';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    Image,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { Button } from '../components/common/Button';
+import { Card } from '../components/common/Card';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useDevices } from '../contexts/DeviceContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { VehicleType } from '../services/api';
+import { DEVICE_ICONS, DeviceMetadata, DeviceOverlay, getDeviceIcon, isDeviceIcon, VEHICLE_COLORS, VEHICLE_TYPES } from '../utils/device-metadata';
+import { getDevicePermissions, getDeviceRole } from '../utils/device-roles';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('DeviceSettings');
+
+const PLATE_MAX_LENGTH = 12;
+
+export default function DeviceSettingsScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const deviceId = Array.isArray(params.deviceId) ? params.deviceId[0] : params.deviceId;
+
+  const { devices, refreshDevices } = useDevices();
+  const device = devices.find((item) => item.id === deviceId);
+  const { canManage } = getDevicePermissions(getDeviceRole(device));
+
+  const [name, setName] = useState('');
+  const [vehicleType, setVehicleType] = useState<VehicleType | null>(null);
+  const [plate, setPlate] = useState('');
+  const [color, setColor] = useState<string | null>(null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  // Picked but not uploaded yet
+  const [newPhotoUri, setNewPhotoUri] = useState<string | null>(null);
+  const [markerIcon, setMarkerIcon] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Fill the form once; later refreshes shouldn't wipe what's being typed
+  useEffect(() => {
+    if (!device || loaded) return;
+    setName(device.name || '');
+    setVehicleType(device.vehicle_type || null);
+    setPlate(device.plate || '');
+    setColor(device.color || null);
+    setPhotoUrl(device.photo_url || null);
+    setMarkerIcon(isDeviceIcon(device.marker_icon) ? device.marker_icon : null);
+    setLoaded(true);
+  }, [device, loaded]);
+
+  const pickPhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Please grant permission to access your photos');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.7,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        setNewPhotoUri(result.assets[0].uri);
+        setPhotoUrl(result.assets[0].uri);
+      }
+    } catch (error) {
+      log.error('Failed to pick photo:', error);
+      Alert.alert('Error', 'Failed to select photo');
+    }
+  };
+
+  const removePhoto = () => {
+    setNewPhotoUri(null);
+    setPhotoUrl(null);
+  };
+
+  const handleSave = async () => {
+    if (!deviceId || !device) return;
+    if (!name.trim()) {
+      Alert.alert('Error', 'Name cannot be empty');
+      return;
+    }
+
+    // Only what was actually edited, so untouched server values stay the server's
+    const form: DeviceOverlay = {
+      name: name.trim(),
+      vehicle_type: vehicleType,
+      plate: plate.trim().toUpperCase() || null,
+      color,
+      marker_icon: markerIcon,
+    };
+    const changes: DeviceOverlay = {};
+    (Object.keys(form) as (keyof DeviceOverlay)[]).forEach((key) => {
+      if (form[key] !== (device[key] || null)) {
+        Object.assign(changes, { [key]: form[key] });
+      }
+    });
+    if (!newPhotoUri && !photoUrl && device.photo_url) {
+      changes.photo_url = null;
+    }
+
+    if (Object.keys(changes).length === 0 && !newPhotoUri) {
+      router.back();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const synced = await DeviceMetadata.save(deviceId, changes, newPhotoUri);
+      if (synced) {
+        await refreshDevices({ force: true });
+        router.back();
+      } else {
+        Alert.alert(
+          'Saved on this phone',
+          "The server can't store vehicle details yet, so they're kept on this phone only and other people sharing this device won't see them.",
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      }
+    } catch (error: any) {
+      log.error('Failed to save device details:', error);
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to save device details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const chipTextColor = (active: boolean) => (active ? COLORS.white : themedColors.textSecondary);
+  const inputStyle = [styles.input, {
+    borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+    color: themedColors.text,
+  }];
+
+  return (
+    <View style={[styles.container, { backgroundColor: themedColors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: themedColors.text }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themedColors.text }]}>Device Settings</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {!device ? (
+          <Text style={[styles.emptyText, { color: themedColors.textSecondary }]}>Device not found</Text>
+        ) : !canManage ? (
+          <Text style={[styles.emptyText, { color: themedColors.textSecondary }]}>
+            Only the owner can change this device&apos;s details.
+          </Text>
+        ) : (
+          <>
+            {/* Photo */}
+            <Card style={styles.card}>
+              <TouchableOpacity style={styles.photoFrame} onPress={pickPhoto}>
+                {photoUrl ? (
+                  <Image source={{ uri: photoUrl }} style={styles.photo} />
+                ) : (
+                  <View style={[styles.photo, styles.photoPlaceholder]}>
+                    <Text style={styles.photoIcon}>{markerIcon || getDeviceIcon({ vehicle_type: vehicleType })}</Text>
+                    <Text style={[styles.hint, { color: themedColors.textSecondary }]}>Tap to add a photo</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+              {!!photoUrl && (
+                <View style={styles.photoActions}>
+                  <TouchableOpacity onPress={pickPhoto}>
+                    <Text style={styles.linkText}>Change Photo</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={removePhoto}>
+                    <Text style={[styles.linkText, styles.removeText]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </Card>
+
+            {/* Details */}
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Details</Text>
+
+              <Text style={[styles.inputLabel, { color: themedColors.textSecondary }]}>Name</Text>
+              <TextInput
+                style={inputStyle}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. My Scooter"
+                placeholderTextColor={themedColors.textTertiary}
+              />
+
+              <Text style={[styles.inputLabel, styles.fieldSpacing, { color: themedColors.textSecondary }]}>Vehicle Type</Text>
+              <View style={styles.chipRow}>
+                {VEHICLE_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type.id}
+                    style={[styles.chip, vehicleType === type.id && styles.chipActive]}
+                    onPress={() => setVehicleType(vehicleType === type.id ? null : type.id)}
+                  >
+                    <Text style={[styles.chipText, { color: chipTextColor(vehicleType === type.id) }]}>
+                      {type.icon} {type.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={[styles.inputLabel, styles.fieldSpacing, { color: themedColors.textSecondary }]}>License Plate</Text>
+              <TextInput
+                style={inputStyle}
+                value={plate}
+                onChangeText={(text) => setPlate(text.toUpperCase())}
+                placeholder="e.g. B 1234 XYZ"
+                placeholderTextColor={themedColors.textTertiary}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={PLATE_MAX_LENGTH}
+              />
+
+              <Text style={[styles.inputLabel, styles.fieldSpacing, { color: themedColors.textSecondary }]}>Color</Text>
+              <View style={styles.chipRow}>
+                {VEHICLE_COLORS.map((option) => (
+                  <TouchableOpacity
+                    key={option.hex}
+                    accessibilityLabel={option.label}
+                    style={[
+                      styles.swatch,
+                      { backgroundColor: option.hex },
+                      color === option.hex && styles.swatchActive,
+                    ]}
+                    onPress={() => setColor(color === option.hex ? null : option.hex)}
+                  />
+                ))}
+              </View>
+            </Card>
+
+            {/* Map Marker */}
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Map Marker</Text>
+              <Text style={[styles.hint, styles.hintSpacing, { color: themedColors.textSecondary }]}>
+                Shown for this device on every map. Defaults to the vehicle type&apos;s icon.
+              </Text>
+              <View style={styles.chipRow}>
+                {DEVICE_ICONS.map((icon) => (
+                  <TouchableOpacity
+                    key={icon}
+                    style={[styles.iconChip, markerIcon === icon && styles.chipActive]}
+                    onPress={() => setMarkerIcon(markerIcon === icon ? null : icon)}
+                  >
+                    <Text style={styles.iconText}>{icon}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </Card>
+
+            <Button title="Save" onPress={handleSave} loading={saving} disabled={saving} style={styles.saveButton} />
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: SPACING.xxl + 20,
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING.md,
+  },
+  backButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.white,
+    fontWeight: '600',
+    width: 60,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  content: {
+    padding: SPACING.lg,
+    paddingBottom: SPACING.xxl,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.md,
+  },
+  photoFrame: {
+    borderRadius: BORDER_RADIUS.md,
+    overflow: 'hidden',
+  },
+  photo: {
+    width: '100%',
+    height: 180,
+  },
+  photoPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(99,102,241,0.1)',
+  },
+  photoIcon: {
+    fontSize: 48,
+    marginBottom: SPACING.xs,
+  },
+  photoActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: SPACING.md,
+  },
+  linkText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  removeText: {
+    color: COLORS.danger,
+  },
+  inputLabel: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    marginBottom: SPACING.xs,
+  },
+  fieldSpacing: {
+    marginTop: SPACING.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+  },
+  hintSpacing: {
+    marginBottom: SPACING.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.glassBorder,
+    alignSelf: 'flex-start',
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.glassBorder,
+  },
+  swatchActive: {
+    borderWidth: 3,
+    borderColor: COLORS.primary,
+  },
+  iconChip: {
+    width: 48,
+    height: 48,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.glassBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    fontSize: 24,
+  },
+  saveButton: {
+    marginTop: SPACING.sm,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+    paddingVertical: SPACING.md,
+  },
+});
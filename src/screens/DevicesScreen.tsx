@@ -7,69 +7,38 @@ import {
   TouchableOpacity,
   TextInput,
   RefreshControl,
-  Modal,
   Alert,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { Card } from '../components/common/Card';
 import { StatusBadge } from '../components/common/StatusBadge';
-import { Button } from '../components/common/Button';
-import { deviceAPI, Device, DeviceCurrentStatus } from '../services/api';
+import { AddDeviceWizard } from '../components/common/AddDeviceWizard';
+import { Device } from '../services/api';
+import { useDevices } from '../contexts/DeviceContext';
 import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../constants/theme';
 import { useRouter, useLocalSearchParams } from 'expo-router';
+import { getDeviceIcon } from '../utils/device-metadata';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Devices');
 
 export default function DevicesScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [deviceStatuses, setDeviceStatuses] = useState<Map<string, DeviceCurrentStatus>>(
-    new Map()
-  );
+  const { devices, statuses: deviceStatuses, refreshDevices } = useDevices();
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [newDeviceId, setNewDeviceId] = useState('');
-  const [newDeviceName, setNewDeviceName] = useState('');
-  const [addingDevice, setAddingDevice] = useState(false);
 
-  const loadDevices = async () => {
+  const loadDevices = async (force = false) => {
     try {
-      const devicesData = await deviceAPI.getMyDevices();
-      
-      // Validate data before setting state
-      if (!Array.isArray(devicesData)) {
-        console.error('Invalid devices data:', devicesData);
-        return;
-      }
-      
-      setDevices(devicesData);
-
-      const statusPromises = devicesData.map((device) => {
-        if (!device || !device.id) {
-          console.warn('Invalid device object:', device);
-          return Promise.resolve(null);
-        }
-        return deviceAPI.getDeviceCurrentStatus(device.id).catch((err) => {
-          console.warn(`Failed to get status for device ${device.id}:`, err);
-          return null;
-        });
-      });
-      
-      const statuses = await Promise.all(statusPromises);
-
-      const statusMap = new Map();
-      statuses.forEach((status, index) => {
-        if (status && devicesData[index]) {
-          statusMap.set(devicesData[index].id, status);
-        }
-      });
-      setDeviceStatuses(statusMap);
+      await refreshDevices({ force });
     } catch (error: any) {
-      console.error('Failed to load devices:', error);
+      log.error('Failed to load devices:', error);
       
       // Check if it's an auth error
       if (error?.response?.status === 401 || error?.isAuthError) {
-        console.log('Auth error detected, redirecting to login');
+        log.info('Auth error detected, redirecting to login');
         router.replace('/');
       } else {
         Alert.alert(
@@ -82,16 +51,12 @@ export default function DevicesScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadDevices();
+    await loadDevices(true);
     setRefreshing(false);
   };
 
   useEffect(() => {
     loadDevices();
-    
-    // Auto refresh every 10 seconds
-    const interval = setInterval(loadDevices, 10000);
-    return () => clearInterval(interval);
   }, []);
 
   useEffect(() => {
@@ -100,27 +65,6 @@ export default function DevicesScreen() {
     }
   }, [params]);
 
-  const handleAddDevice = async () => {
-    if (!newDeviceId.trim() || !newDeviceName.trim()) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
-
-    setAddingDevice(true);
-    try {
-      await deviceAPI.registerDevice(newDeviceId.trim(), newDeviceName.trim());
-      setShowAddModal(false);
-      setNewDeviceId('');
-      setNewDeviceName('');
-      await loadDevices();
-      Alert.alert('Success', 'Device added successfully');
-    } catch (error: any) {
-      Alert.alert('Error', error.response?.data?.detail || 'Failed to add device');
-    } finally {
-      setAddingDevice(false);
-    }
-  };
-
   const filteredDevices = devices.filter(
     (device) =>
       device.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -130,7 +74,7 @@ export default function DevicesScreen() {
   const renderDevice = ({ item }: { item: Device }) => {
     // Add null check for item
     if (!item || !item.id) {
-      console.warn('Invalid device item:', item);
+      log.warn('Invalid device item:', item);
       return null;
     }
     
@@ -146,7 +90,7 @@ export default function DevicesScreen() {
           <View style={styles.deviceHeader}>
             <View style={styles.deviceInfo}>
               <Text style={[styles.deviceName, !isOnline && styles.offlineText]}>
-                {item.name || 'Unknown Device'}
+                {getDeviceIcon(item)} {item.name || 'Unknown Device'}
               </Text>
               <Text style={[styles.deviceId, !isOnline && styles.offlineSubtext]}>
                 {item.id}
@@ -230,57 +174,11 @@ export default function DevicesScreen() {
         }
       />
 
-      {/* Add Device Modal */}
-      <Modal
+      <AddDeviceWizard
         visible={showAddModal}
-        animationType="slide"
-        transparent
-        onRequestClose={() => setShowAddModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Add New Device</Text>
-
-            <View style={styles.modalForm}>
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Device ID</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="e.g. MOTOR-ABC123"
-                  value={newDeviceId}
-                  onChangeText={setNewDeviceId}
-                  autoCapitalize="characters"
-                />
-              </View>
-
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Device Name</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="e.g. My Honda Beat"
-                  value={newDeviceName}
-                  onChangeText={setNewDeviceName}
-                />
-              </View>
-
-              <View style={styles.modalButtons}>
-                <Button
-                  title="Cancel"
-                  onPress={() => setShowAddModal(false)}
-                  variant="outline"
-                  style={styles.modalButton}
-                />
-                <Button
-                  title="Add Device"
-                  onPress={handleAddDevice}
-                  loading={addingDevice}
-                  style={styles.modalButton}
-                />
-              </View>
-            </View>
-          </View>
-        </View>
-      </Modal>
+        onClose={() => setShowAddModal(false)}
+        onAdded={() => loadDevices(true)}
+      />
     </View>
   );
 }
@@ -372,51 +270,6 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.sm,
     color: COLORS.gray500,
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.5)',
-    justifyContent: 'center',
-    padding: SPACING.lg,
-  },
-  modalContent: {
-    backgroundColor: COLORS.white,
-    borderRadius: BORDER_RADIUS.xxl,
-    padding: SPACING.xl,
-  },
-  modalTitle: {
-    fontSize: FONT_SIZES.xxl,
-    fontWeight: 'bold',
-    color: COLORS.gray900,
-    marginBottom: SPACING.lg,
-  },
-  modalForm: {
-    gap: SPACING.md,
-  },
-  inputGroup: {
-    gap: SPACING.xs,
-  },
-  label: {
-    fontSize: FONT_SIZES.sm,
-    fontWeight: '600',
-    color: COLORS.gray700,
-  },
-  input: {
-    backgroundColor: COLORS.gray50,
-    borderWidth: 1,
-    borderColor: COLORS.gray200,
-    borderRadius: BORDER_RADIUS.lg,
-    padding: SPACING.md,
-    fontSize: FONT_SIZES.md,
-    color: COLORS.gray900,
-  },
-  modalButtons: {
-    flexDirection: 'row',
-    gap: SPACING.md,
-    marginTop: SPACING.md,
-  },
-  modalButton: {
-    flex: 1,
-  },
   offlineDeviceCard: {
     opacity: 0.7,
     backgroundColor: COLORS.gray50,
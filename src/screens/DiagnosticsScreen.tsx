@@ -0,0 +1,382 @@
+import { Redirect, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useCallback, useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    Share,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { Button } from '../components/common/Button';
+import { Card } from '../components/common/Card';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useDevices } from '../contexts/DeviceContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { CommandQueue } from '../utils/command-queue';
+import { Diagnostics, DiagnosticsReport, formatBytes } from '../utils/diagnostics';
+import { Environment, EnvironmentId, normalizeBaseUrl } from '../utils/environment';
+import { Logger, LogLevel } from '../utils/logger';
+
+const VISIBLE_LOG_LINES = 40;
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LOG_COLORS: Record<LogLevel, string> = {
+  debug: COLORS.gray500,
+  info: COLORS.info,
+  warn: COLORS.warning,
+  error: COLORS.danger,
+};
+
+const TOKEN_LABELS = {
+  valid: '✅ Accepted by server',
+  rejected: '❌ Rejected by server',
+  missing: '⚪ Not logged in',
+  unverified: '⚠️ Present, server unreachable',
+};
+
+const formatTime = (ms: number | null) => (ms ? new Date(ms).toLocaleString() : '—');
+
+export default function DiagnosticsScreen() {
+  const router = useRouter();
+  const { isDark } = useTheme();
+  const { reset: resetDevices } = useDevices();
+  const themedColors = getThemedColors(isDark);
+  const [report, setReport] = useState<DiagnosticsReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [logLevel, setLogLevel] = useState<LogLevel>(Logger.getLevel());
+  const [environmentId, setEnvironmentId] = useState<EnvironmentId>(Environment.get().id);
+  const [customUrl, setCustomUrl] = useState(
+    Environment.get().id === 'custom' ? Environment.getBaseUrl() : ''
+  );
+
+  const runChecks = useCallback(async () => {
+    setRunning(true);
+    try {
+      setReport(await Diagnostics.collect());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to collect diagnostics');
+    } finally {
+      setRunning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (Diagnostics.isEnabled()) runChecks();
+  }, [runChecks]);
+
+  const changeLogLevel = (level: LogLevel) => {
+    Logger.setLevel(level);
+    setLogLevel(level);
+  };
+
+  const switchEnvironment = () => {
+    const current = Environment.get();
+    if (environmentId === current.id && (environmentId !== 'custom' || customUrl.trim() === current.baseUrl)) {
+      return;
+    }
+
+    Alert.alert(
+      'Switch Backend',
+      'Devices and pending commands from the current backend will be cleared. Sessions are kept per backend, so you may need to log in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // Validate before throwing anything away
+              if (environmentId === 'custom' && !normalizeBaseUrl(customUrl)) {
+                throw new Error('Enter a full http:// or https:// URL');
+              }
+              resetDevices();
+              await CommandQueue.clearQueue();
+              await Environment.select(environmentId, customUrl);
+              router.replace('/');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to switch backend');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const exportBundle = async () => {
+    if (!report) return;
+    try {
+      await Share.share({ title: 'Diagnostics bundle', message: Diagnostics.toJSON(report) });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export diagnostics');
+    }
+  };
+
+  // Deep links land here too; only the hidden gesture or a dev build opens it
+  if (!Diagnostics.isEnabled()) {
+    return <Redirect href="/" />;
+  }
+
+  const Row = ({ label, value, color }: { label: string; value: string; color?: string }) => (
+    <View style={[styles.row, { borderBottomColor: themedColors.border }]}>
+      <Text style={[styles.rowLabel, { color: themedColors.textSecondary }]}>{label}</Text>
+      <Text style={[styles.rowValue, { color: color ?? themedColors.text }]} numberOfLines={2}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: themedColors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: themedColors.text }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themedColors.text }]}>Diagnostics</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.actions}>
+          <Button title={running ? 'Checking...' : 'Run Checks'} onPress={runChecks} loading={running} variant="glass" style={styles.actionButton} />
+          <Button title="Export Bundle" onPress={exportBundle} disabled={!report} style={styles.actionButton} />
+        </View>
+
+        <Card style={styles.card}>
+          <Text style={[styles.cardTitle, { color: themedColors.text }]}>Environment</Text>
+          <View style={styles.levelRow}>
+            {[...Environment.getPresets(), { id: 'custom' as const, label: 'Custom' }].map((env) => (
+              <TouchableOpacity
+                key={env.id}
+                style={[styles.levelChip, { borderColor: environmentId === env.id ? COLORS.primary : themedColors.border }]}
+                onPress={() => setEnvironmentId(env.id)}
+              >
+                <Text style={[styles.levelText, { color: environmentId === env.id ? COLORS.primary : themedColors.textSecondary }]}>
+                  {env.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {environmentId === 'custom' && (
+            <TextInput
+              style={[styles.input, { color: themedColors.text, borderColor: themedColors.border }]}
+              placeholder="http://192.168.1.10:8000"
+              placeholderTextColor={themedColors.textTertiary}
+              value={customUrl}
+              onChangeText={setCustomUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          )}
+          <Button title="Apply" onPress={switchEnvironment} variant="outline" />
+        </Card>
+
+        {!report ? (
+          <ActivityIndicator color={COLORS.primary} style={{ marginTop: SPACING.xl }} />
+        ) : (
+          <>
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>API</Text>
+              <Row label="Base URL" value={report.api.baseUrl} />
+              <Row
+                label="Reachable"
+                value={report.api.reachable ? `Yes (HTTP ${report.api.status})` : `No${report.api.error ? ` · ${report.api.error}` : ''}`}
+                color={report.api.reachable ? COLORS.success : COLORS.danger}
+              />
+              <Row label="Latency" value={report.api.latencyMs != null ? `${report.api.latencyMs} ms` : '—'} />
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Session</Text>
+              <Row label="Auth token" value={TOKEN_LABELS[report.session.token]} />
+              <Row label="Refresh token" value={report.session.hasRefreshToken ? 'Present' : 'None'} />
+              <Row label="Expires" value={formatTime(report.session.expiresAt)} />
+              <Row
+                label="Push"
+                value={`${report.push.status}${report.push.error ? ` · ${report.push.error}` : ''}`}
+                color={report.push.status === 'synced' ? COLORS.success : undefined}
+              />
+              <Row label="Push updated" value={formatTime(report.push.updatedAt)} />
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Network</Text>
+              <Row
+                label="Connected"
+                value={report.network.connected ? 'Yes' : 'No'}
+                color={report.network.connected ? COLORS.success : COLORS.danger}
+              />
+              <Row label="Type" value={report.network.type} />
+              <Row label="Internet reachable" value={String(report.network.internetReachable ?? 'unknown')} />
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>
+                Command Queue ({report.commandQueue.length})
+              </Text>
+              {report.commandQueue.length === 0 ? (
+                <Text style={[styles.empty, { color: themedColors.textSecondary }]}>Queue is empty</Text>
+              ) : (
+                report.commandQueue.map((cmd) => (
+                  <Row
+                    key={cmd.id}
+                    label={`${cmd.command} · ${cmd.deviceId}`}
+                    value={`${cmd.status}, ${cmd.retryCount} tries`}
+                  />
+                ))
+              )}
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Storage</Text>
+              {report.storage.map((group) => (
+                <Row
+                  key={group.name}
+                  label={group.name}
+                  value={`${formatBytes(group.bytes)} · ${group.keys} key${group.keys !== 1 ? 's' : ''}`}
+                />
+              ))}
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={[styles.cardTitle, { color: themedColors.text }]}>Recent Logs</Text>
+              <View style={styles.levelRow}>
+                {LOG_LEVELS.map((level) => (
+                  <TouchableOpacity
+                    key={level}
+                    style={[styles.levelChip, { borderColor: logLevel === level ? COLORS.primary : themedColors.border }]}
+                    onPress={() => changeLogLevel(level)}
+                  >
+                    <Text style={[styles.levelText, { color: logLevel === level ? COLORS.primary : themedColors.textSecondary }]}>
+                      {level}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {report.logs.length === 0 ? (
+                <Text style={[styles.empty, { color: themedColors.textSecondary }]}>No log entries yet</Text>
+              ) : (
+                report.logs.slice(-VISIBLE_LOG_LINES).reverse().map((entry, index) => (
+                  <Text key={`${entry.time}-${index}`} style={[styles.logLine, { color: LOG_COLORS[entry.level] }]}>
+                    {new Date(entry.time).toLocaleTimeString()} [{entry.tag}] {entry.message}
+                  </Text>
+                ))
+              )}
+            </Card>
+
+            <Text style={[styles.footer, { color: themedColors.textTertiary }]}>
+              {report.app.platform} · v{report.app.version} · generated {new Date(report.generatedAt).toLocaleTimeString()}
+            </Text>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: SPACING.xxl + 20,
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING.md,
+  },
+  backButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.white,
+    fontWeight: '600',
+    width: 60,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  content: {
+    padding: SPACING.lg,
+    paddingBottom: SPACING.xxl,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  card: {
+    marginBottom: SPACING.md,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+  },
+  rowLabel: {
+    fontSize: FONT_SIZES.sm,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+    marginBottom: SPACING.sm,
+  },
+  empty: {
+    fontSize: FONT_SIZES.sm,
+  },
+  levelRow: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+    marginBottom: SPACING.sm,
+  },
+  levelChip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+  },
+  levelText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: '600',
+  },
+  logLine: {
+    fontSize: FONT_SIZES.xs,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    marginBottom: 2,
+  },
+  footer: {
+    fontSize: FONT_SIZES.xs,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
+});
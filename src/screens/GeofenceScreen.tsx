@@ -0,0 +1,389 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { Button } from '../components/common/Button';
+import { Card } from '../components/common/Card';
+import { MapComponent } from '../components/common/MapComponent';
+import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import { deviceAPI } from '../services/api';
+import { Geofence, GeofenceShape, GeofenceStore } from '../utils/geofence';
+import { isValidCoordinate, LatLng } from '../utils/location-history';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Geofences');
+
+type DrawMode = 'circle' | 'polygon';
+
+const RADIUS_OPTIONS = [100, 250, 500, 1000];
+
+const formatRadius = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+export default function GeofenceScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const { isDark } = useTheme();
+  const themedColors = getThemedColors(isDark);
+  const deviceId = Array.isArray(params.deviceId) ? params.deviceId[0] : params.deviceId;
+
+  const [deviceName, setDeviceName] = useState<string>(deviceId || '');
+  const [devicePosition, setDevicePosition] = useState<LatLng | null>(null);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [drawMode, setDrawMode] = useState<DrawMode>('circle');
+  const [circleCenter, setCircleCenter] = useState<LatLng | null>(null);
+  const [radius, setRadius] = useState(RADIUS_OPTIONS[1]);
+  const [polygonPoints, setPolygonPoints] = useState<LatLng[]>([]);
+  const [zoneName, setZoneName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadGeofences = useCallback(async () => {
+    if (!deviceId) return;
+    setGeofences(await GeofenceStore.getForDevice(deviceId));
+  }, [deviceId]);
+
+  useEffect(() => {
+    if (!deviceId) return;
+    loadGeofences();
+
+    deviceAPI.getDeviceCurrentStatus(deviceId)
+      .then((status) => {
+        if (status.name) setDeviceName(status.name);
+        if (isValidCoordinate(status.lat, status.lon)) {
+          setDevicePosition({ lat: status.lat!, lon: status.lon! });
+        }
+      })
+      .catch((error) => log.warn('Failed to load device position:', error));
+  }, [deviceId, loadGeofences]);
+
+  const draftGeofence = useMemo<GeofenceShape | null>(() => {
+    if (drawMode === 'circle') {
+      return circleCenter ? { type: 'circle', center: circleCenter, radius } : null;
+    }
+    return polygonPoints.length > 0 ? { type: 'polygon', points: polygonPoints } : null;
+  }, [drawMode, circleCenter, radius, polygonPoints]);
+
+  // Center on the bike, otherwise on an existing zone
+  const mapCenter = useMemo<LatLng | null>(() => {
+    if (devicePosition) return devicePosition;
+    const first = geofences[0];
+    if (!first) return null;
+    return first.type === 'circle' ? first.center : first.points[0];
+  }, [devicePosition, geofences]);
+
+  const handleMapPress = (point: LatLng) => {
+    if (drawMode === 'circle') {
+      setCircleCenter(point);
+    } else {
+      setPolygonPoints((prev) => [...prev, point]);
+    }
+  };
+
+  const resetDraft = () => {
+    setCircleCenter(null);
+    setPolygonPoints([]);
+    setZoneName('');
+  };
+
+  const handleSave = async () => {
+    if (!deviceId) return;
+    if (!zoneName.trim()) {
+      Alert.alert('Error', 'Please give the safe zone a name');
+      return;
+    }
+    if (!draftGeofence || (draftGeofence.type === 'polygon' && draftGeofence.points.length < 3)) {
+      Alert.alert(
+        'Error',
+        drawMode === 'circle'
+          ? 'Tap the map to place the center of the zone'
+          : 'Tap the map at least 3 times to outline the zone'
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await GeofenceStore.add(deviceId, zoneName.trim(), draftGeofence);
+      resetDraft();
+      await loadGeofences();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (fence: Geofence) => {
+    Alert.alert('Delete Safe Zone?', `"${fence.name}" will no longer be monitored.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await GeofenceStore.remove(fence.id);
+          await loadGeofences();
+        },
+      },
+    ]);
+  };
+
+  const chipTextColor = (active: boolean) => (active ? COLORS.white : themedColors.textSecondary);
+
+  return (
+    <View style={[styles.container, { backgroundColor: themedColors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: themedColors.text }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themedColors.text }]}>Safe Zones</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.subtitle, { color: themedColors.textSecondary }]}>
+          You&apos;ll get a notification when {deviceName} leaves one of these zones.
+        </Text>
+
+        {/* Drawing Mode */}
+        <View style={styles.chipRow}>
+          {(['circle', 'polygon'] as DrawMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.chip, drawMode === mode && styles.chipActive]}
+              onPress={() => {
+                setDrawMode(mode);
+                setCircleCenter(null);
+                setPolygonPoints([]);
+              }}
+            >
+              <Text style={[styles.chipText, { color: chipTextColor(drawMode === mode) }]}>
+                {mode === 'circle' ? '⭕ Circle' : '⬠ Polygon'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Map */}
+        <Card style={styles.mapCard} padding={0}>
+          {mapCenter ? (
+            <MapComponent
+              latitude={mapCenter.lat}
+              longitude={mapCenter.lon}
+              zoom={16}
+              deviceId={deviceName}
+              geofences={geofences}
+              draftGeofence={draftGeofence}
+              onMapPress={handleMapPress}
+              height={300}
+            />
+          ) : (
+            <Text style={[styles.noLocation, { color: themedColors.textSecondary }]}>
+              Waiting for the device&apos;s first position...
+            </Text>
+          )}
+        </Card>
+
+        <Text style={[styles.hint, { color: themedColors.textSecondary }]}>
+          {drawMode === 'circle'
+            ? 'Tap the map to place the center of the zone.'
+            : `Tap the map to add corners (${polygonPoints.length} so far).`}
+        </Text>
+
+        {drawMode === 'circle' ? (
+          <View style={styles.chipRow}>
+            {RADIUS_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, radius === option && styles.chipActive]}
+                onPress={() => setRadius(option)}
+              >
+                <Text style={[styles.chipText, { color: chipTextColor(radius === option) }]}>
+                  {formatRadius(option)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          polygonPoints.length > 0 && (
+            <TouchableOpacity
+              style={styles.chip}
+              onPress={() => setPolygonPoints((prev) => prev.slice(0, -1))}
+            >
+              <Text style={[styles.chipText, { color: themedColors.textSecondary }]}>↶ Undo last point</Text>
+            </TouchableOpacity>
+          )
+        )}
+
+        {/* New Zone Form */}
+        <Card style={styles.formCard}>
+          <Text style={[styles.inputLabel, { color: themedColors.text }]}>Zone Name</Text>
+          <TextInput
+            style={[styles.input, {
+              borderColor: isDark ? COLORS.glassBorder : COLORS.glassBorderLight,
+              color: themedColors.text,
+              backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+            }]}
+            placeholder="e.g., Parking Garage"
+            placeholderTextColor={themedColors.textTertiary}
+            value={zoneName}
+            onChangeText={setZoneName}
+            editable={!saving}
+          />
+          <Button title="Save Safe Zone" onPress={handleSave} loading={saving} style={styles.saveButton} />
+        </Card>
+
+        {/* Existing Zones */}
+        <Card style={styles.formCard}>
+          <Text style={[styles.cardTitle, { color: themedColors.text }]}>Active Zones</Text>
+          {geofences.length === 0 ? (
+            <Text style={[styles.emptyText, { color: themedColors.textSecondary }]}>No safe zones yet</Text>
+          ) : (
+            geofences.map((fence) => (
+              <View key={fence.id} style={styles.zoneRow}>
+                <View style={styles.zoneInfo}>
+                  <Text style={[styles.zoneName, { color: themedColors.text }]}>{fence.name}</Text>
+                  <Text style={[styles.zoneMeta, { color: themedColors.textSecondary }]}>
+                    {fence.type === 'circle'
+                      ? `Circle · ${formatRadius(fence.radius)}`
+                      : `Polygon · ${fence.points.length} corners`}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDelete(fence)}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </Card>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: SPACING.xxl + 20,
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING.md,
+  },
+  backButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.white,
+    fontWeight: '600',
+    width: 60,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  content: {
+    padding: SPACING.lg,
+    paddingBottom: SPACING.xxl,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginBottom: SPACING.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.glassBorder,
+    alignSelf: 'flex-start',
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  mapCard: {
+    height: 300,
+    overflow: 'hidden',
+    marginBottom: SPACING.sm,
+    justifyContent: 'center',
+  },
+  noLocation: {
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    marginBottom: SPACING.sm,
+  },
+  formCard: {
+    marginTop: SPACING.md,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.md,
+  },
+  inputLabel: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+  },
+  saveButton: {
+    marginTop: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    textAlign: 'center',
+    paddingVertical: SPACING.md,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  zoneInfo: {
+    flex: 1,
+  },
+  zoneName: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  zoneMeta: {
+    fontSize: FONT_SIZES.xs,
+  },
+  deleteText: {
+    color: COLORS.danger,
+    fontWeight: '600',
+    fontSize: FONT_SIZES.sm,
+  },
+});
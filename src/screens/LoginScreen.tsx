@@ -21,10 +21,15 @@ import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, getThemedColors } from '../
 import { NetworkService } from '../utils/network-utils';
 import { AuroraWaves } from '../components/common/AuroraWaves';
 import { useTheme } from '../contexts/ThemeContext';
+import { useDevices } from '../contexts/DeviceContext';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Login');
 
 export default function LoginScreen() {
   const router = useRouter();
   const { isDark } = useTheme();
+  const { reset: resetDevices } = useDevices();
   const themedColors = getThemedColors(isDark);
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
@@ -66,16 +71,19 @@ export default function LoginScreen() {
     try {
       if (isLogin) {
         const userData = await authAPI.login(email.trim(), password);
-        console.log('Login successful:', userData);
+        log.info('Login successful for user', userData.user_id);
       } else {
         const userData = await authAPI.register(name.trim(), email.trim(), password);
-        console.log('Registration successful:', userData);
+        log.info('Registration successful for user', userData.user_id);
       }
       
+      // Don't show the previous account's devices
+      resetDevices();
+      
       // Navigate to dashboard after successful auth
       router.replace('/(tabs)/devices');
     } catch (err: any) {
-      console.error('Auth error:', err);
+      log.error('Auth error:', err);
       
       // Better error messages based on error type
       let errorMessage = '';
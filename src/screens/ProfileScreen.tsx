@@ -19,6 +19,9 @@ import { AuroraWaves } from '../components/common/AuroraWaves';
 import { Card } from '../components/common/Card';
 import { BORDER_RADIUS, COLORS, FONT_SIZES, getThemedColors, SPACING } from '../constants/theme';
 import { useTheme } from '../contexts/ThemeContext';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Profile');
 
 export default function ProfileScreen() {
   const router = useRouter();
@@ -49,7 +52,7 @@ export default function ProfileScreen() {
         setProfileImage(savedProfileImage);
       }
     } catch (error) {
-      console.error('Failed to load profile:', error);
+      log.error('Failed to load profile:', error);
     } finally {
       setLoading(false);
     }
@@ -75,7 +78,7 @@ export default function ProfileScreen() {
         setProfileImage(result.assets[0].uri);
       }
     } catch (error) {
-      console.error('Failed to pick image:', error);
+      log.error('Failed to pick image:', error);
       Alert.alert('Error', 'Failed to select image');
     }
   };
@@ -110,7 +113,7 @@ export default function ProfileScreen() {
         { text: 'OK', onPress: () => router.back() }
       ]);
     } catch (error) {
-      console.error('Failed to save profile:', error);
+      log.error('Failed to save profile:', error);
       Alert.alert('Error', 'Failed to save profile');
     } finally {
       setSaving(false);
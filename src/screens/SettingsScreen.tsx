@@ -1,23 +1,116 @@
 import { useRouter } from 'expo-router';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
+  Alert,
+  Modal,
   SafeAreaView,
   ScrollView,
   StatusBar as RNStatusBar,
   StyleSheet,
+  Switch,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
 import { Card } from '../components/common/Card';
 import { AuroraWaves } from '../components/common/AuroraWaves';
+import { PinPad } from '../components/common/PinPad';
 import { BORDER_RADIUS, COLORS, FONT_SIZES, SPACING, getThemedColors } from '../constants/theme';
+import { useAppLock } from '../contexts/AppLockContext';
+import { useDevices } from '../contexts/DeviceContext';
 import { ThemeMode, useTheme } from '../contexts/ThemeContext';
+import { AppLock, IDLE_TIMEOUT_OPTIONS } from '../utils/app-lock';
+import { Diagnostics } from '../utils/diagnostics';
+import {
+  formatMinutes,
+  NOTIFICATION_CHANNELS,
+  NotificationSettings,
+  NotificationSeverity,
+  QuietHours,
+} from '../utils/notification-preferences';
+
+// Taps on the version row that open the diagnostics screen
+const DIAGNOSTICS_TAPS = 7;
+
+const QUIET_START_OPTIONS = [20, 21, 22, 23, 0].map((hour) => hour * 60);
+const QUIET_END_OPTIONS = [5, 6, 7, 8, 9].map((hour) => hour * 60);
+// Theft alarms always come through, so only the rest are a choice
+const QUIET_SEVERITY_OPTIONS: NotificationSeverity[] = ['movement', 'low_battery', 'offline', 'general'];
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { themeMode, setThemeMode, isDark } = useTheme();
   const themedColors = getThemedColors(isDark);
+  const { settings: lockSettings, requireUnlock } = useAppLock();
+  const { devices } = useDevices();
+  const [notificationPrefs, setNotificationPrefs] = useState(NotificationSettings.get());
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  // PIN setup: first entry, then the same PIN again to confirm
+  const [pinSetup, setPinSetup] = useState<{ step: 'enter' | 'confirm'; first?: string } | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [versionTaps, setVersionTaps] = useState(0);
+
+  useEffect(() => {
+    AppLock.isBiometricAvailable().then(setBiometricAvailable);
+  }, []);
+
+  useEffect(() => {
+    NotificationSettings.load().then(setNotificationPrefs);
+    return NotificationSettings.subscribe(setNotificationPrefs);
+  }, []);
+
+  const updateQuietHours = (changes: Partial<QuietHours>) =>
+    NotificationSettings.update({ quietHours: { ...notificationPrefs.quietHours, ...changes } });
+
+  const startPinSetup = async () => {
+    // Changing an existing PIN needs the current one first
+    if (lockSettings.enabled && !(await requireUnlock('Change your app lock PIN'))) return;
+    setPinError(null);
+    setPinSetup({ step: 'enter' });
+  };
+
+  const handlePinEntry = async (pin: string) => {
+    if (pinSetup?.step === 'enter') {
+      setPinError(null);
+      setPinSetup({ step: 'confirm', first: pin });
+      return;
+    }
+    if (pin !== pinSetup?.first) {
+      setPinError("PINs didn't match. Try again.");
+      setPinSetup({ step: 'enter' });
+      return;
+    }
+    await AppLock.setPin(pin);
+    setPinSetup(null);
+  };
+
+  const handleVersionTap = () => {
+    const taps = versionTaps + 1;
+    if (taps >= DIAGNOSTICS_TAPS) {
+      setVersionTaps(0);
+      Diagnostics.unlock();
+      router.push('/diagnostics');
+    } else {
+      setVersionTaps(taps);
+    }
+  };
+
+  const handleLockToggle = async (enabled: boolean) => {
+    if (enabled) {
+      startPinSetup();
+    } else if (await requireUnlock('Turn off app lock')) {
+      await AppLock.disable();
+    }
+  };
+
+  const handleBiometricToggle = async (enabled: boolean) => {
+    // Make sure the sensor actually works before relying on it
+    if (enabled && !(await AppLock.authenticateBiometric('Enable biometric unlock'))) {
+      Alert.alert('Biometric unlock', 'Could not verify your fingerprint or face.');
+      return;
+    }
+    await AppLock.updateSettings({ biometricsEnabled: enabled });
+  };
 
   const themeOptions: { mode: ThemeMode; label: string; icon: string; description: string }[] = [
     { mode: 'auto', label: 'Auto', icon: '🌓', description: 'Match system settings' },
@@ -80,22 +173,205 @@ export default function SettingsScreen() {
             </View>
           </Card>
 
+          {/* Security Section */}
+          <Card style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: themedColors.text }]}>Security</Text>
+            <Text style={[styles.sectionSubtitle, { color: themedColors.textSecondary }]}>
+              Require a PIN to open the app, disarm a device or remove it
+            </Text>
+
+            <View style={styles.switchRow}>
+              <Text style={[styles.infoLabel, { color: themedColors.text }]}>App Lock</Text>
+              <Switch
+                value={lockSettings.enabled}
+                onValueChange={handleLockToggle}
+                trackColor={{ true: COLORS.primary }}
+              />
+            </View>
+
+            {lockSettings.enabled && (
+              <>
+                <View style={styles.switchRow}>
+                  <View style={styles.optionContent}>
+                    <Text style={[styles.infoLabel, { color: themedColors.text }]}>Biometric Unlock</Text>
+                    {!biometricAvailable && (
+                      <Text style={[styles.optionDescription, { color: themedColors.textSecondary }]}>
+                        No fingerprint or face enrolled on this device
+                      </Text>
+                    )}
+                  </View>
+                  <Switch
+                    value={lockSettings.biometricsEnabled}
+                    onValueChange={handleBiometricToggle}
+                    disabled={!biometricAvailable}
+                    trackColor={{ true: COLORS.primary }}
+                  />
+                </View>
+
+                <Text style={[styles.infoLabel, styles.subheading, { color: themedColors.text }]}>Lock after</Text>
+                <View style={styles.chipRow}>
+                  {IDLE_TIMEOUT_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.chip,
+                        { borderColor: lockSettings.idleTimeoutMs === option.value ? COLORS.primary : themedColors.border },
+                        lockSettings.idleTimeoutMs === option.value && styles.optionCardActive,
+                      ]}
+                      onPress={() => AppLock.updateSettings({ idleTimeoutMs: option.value })}
+                    >
+                      <Text style={[styles.chipText, { color: themedColors.text }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <TouchableOpacity onPress={startPinSetup} style={styles.linkButton}>
+                  <Text style={styles.linkText}>Change PIN</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </Card>
+
+          {/* Notifications Section */}
+          <Card style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: themedColors.text }]}>Notifications</Text>
+            <Text style={[styles.sectionSubtitle, { color: themedColors.textSecondary }]}>
+              Theft alarms always come through, even during quiet hours
+            </Text>
+
+            <View style={styles.switchRow}>
+              <Text style={[styles.infoLabel, { color: themedColors.text }]}>Quiet Hours</Text>
+              <Switch
+                value={notificationPrefs.quietHours.enabled}
+                onValueChange={(enabled) => updateQuietHours({ enabled })}
+                trackColor={{ true: COLORS.primary }}
+              />
+            </View>
+
+            {notificationPrefs.quietHours.enabled && (
+              <>
+                {[
+                  { label: 'From', key: 'start' as const, options: QUIET_START_OPTIONS },
+                  { label: 'Until', key: 'end' as const, options: QUIET_END_OPTIONS },
+                ].map((row) => (
+                  <View key={row.key}>
+                    <Text style={[styles.infoLabel, styles.subheading, { color: themedColors.text }]}>{row.label}</Text>
+                    <View style={styles.chipRow}>
+                      {row.options.map((minutes) => {
+                        const selected = notificationPrefs.quietHours[row.key] === minutes;
+                        return (
+                          <TouchableOpacity
+                            key={minutes}
+                            style={[
+                              styles.chip,
+                              { borderColor: selected ? COLORS.primary : themedColors.border },
+                              selected && styles.optionCardActive,
+                            ]}
+                            onPress={() => updateQuietHours({ [row.key]: minutes })}
+                          >
+                            <Text style={[styles.chipText, { color: themedColors.text }]}>{formatMinutes(minutes)}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+                <Text style={[styles.infoLabel, styles.subheading, { color: themedColors.text }]}>Still alert for</Text>
+                <View style={styles.chipRow}>
+                  {QUIET_SEVERITY_OPTIONS.map((severity) => {
+                    const allowed = notificationPrefs.quietHours.allowedSeverities;
+                    const selected = allowed.includes(severity);
+                    return (
+                      <TouchableOpacity
+                        key={severity}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? COLORS.primary : themedColors.border },
+                          selected && styles.optionCardActive,
+                        ]}
+                        onPress={() =>
+                          updateQuietHours({
+                            allowedSeverities: selected
+                              ? allowed.filter((s) => s !== severity)
+                              : [...allowed, severity],
+                          })
+                        }
+                      >
+                        <Text style={[styles.chipText, { color: themedColors.text }]}>
+                          {NOTIFICATION_CHANNELS[severity].name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            {devices.length > 0 && (
+              <>
+                <Text style={[styles.infoLabel, styles.subheading, { color: themedColors.text }]}>Alerts per device</Text>
+                {devices.map((device) => (
+                  <View key={device.id} style={styles.switchRow}>
+                    <Text style={[styles.infoLabel, styles.optionContent, { color: themedColors.text }]} numberOfLines={1}>
+                      {device.name || device.id}
+                    </Text>
+                    <Switch
+                      value={!notificationPrefs.mutedDeviceIds.includes(device.id)}
+                      onValueChange={(enabled) => NotificationSettings.setDeviceMuted(device.id, !enabled)}
+                      trackColor={{ true: COLORS.primary }}
+                    />
+                  </View>
+                ))}
+              </>
+            )}
+          </Card>
+
           {/* App Info */}
           <Card style={styles.section}>
             <Text style={[styles.sectionTitle, { color: themedColors.text }]}>About</Text>
-            <View style={[styles.infoRow, { borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' }]}>
+            <TouchableOpacity
+              style={[styles.infoRow, { borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' }]}
+              onPress={handleVersionTap}
+              activeOpacity={1}
+            >
               <Text style={[styles.infoLabel, { color: themedColors.textSecondary }]}>Version</Text>
               <Text style={[styles.infoValue, { color: themedColors.text }]}>1.0.0</Text>
-            </View>
+            </TouchableOpacity>
             <View style={[styles.infoRow, { borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' }]}>
               <Text style={[styles.infoLabel, { color: themedColors.textSecondary }]}>Theme</Text>
               <Text style={[styles.infoValue, { color: themedColors.text }]}>
                 {themeMode === 'auto' ? `Auto (${isDark ? 'Dark' : 'Light'})` : themeMode}
               </Text>
             </View>
+            {Diagnostics.isEnabled() && (
+              <TouchableOpacity
+                style={[styles.infoRow, { borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' }]}
+                onPress={() => router.push('/diagnostics')}
+              >
+                <Text style={[styles.infoLabel, { color: themedColors.textSecondary }]}>Diagnostics</Text>
+                <Text style={[styles.infoValue, { color: themedColors.text }]}>›</Text>
+              </TouchableOpacity>
+            )}
           </Card>
         </ScrollView>
       </SafeAreaView>
+
+      {/* PIN Setup Modal */}
+      <Modal
+        visible={!!pinSetup}
+        animationType="slide"
+        onRequestClose={() => setPinSetup(null)}
+      >
+        <View style={[styles.pinModal, { backgroundColor: themedColors.background }]}>
+          <PinPad
+            title={pinSetup?.step === 'confirm' ? 'Confirm your PIN' : 'Choose a PIN'}
+            subtitle="You'll need it to open the app and to disarm or remove devices"
+            error={pinError}
+            onComplete={handlePinEntry}
+            onCancel={() => setPinSetup(null)}
+          />
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -178,6 +454,46 @@ const styles = StyleSheet.create({
     color: COLORS.primary,
     fontWeight: 'bold',
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.md,
+  },
+  subheading: {
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  linkText: {
+    color: COLORS.primary,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  pinModal: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,82 @@
+import { ChildProcess, spawn } from 'child_process';
+import path from 'path';
+import WebSocket from 'ws';
+import { deviceAPI, DeviceCurrentStatus } from '../api';
+import { RealtimeClient, RealtimeState } from '../realtime';
+
+jest.mock('../api', () => ({
+  getAuthToken: jest.fn(async () => 'test-token'),
+  deviceAPI: { getCurrentStatuses: jest.fn(async () => []), getDeviceAlerts: jest.fn(async () => []) },
+}));
+jest.mock('../../utils/network-utils', () => ({
+  NetworkService: { getConnectionStatus: () => true, subscribe: () => () => {} },
+}));
+
+// Runs against scripts/mock-realtime-server.js, the same server used by hand
+const PORT = 18787;
+const SERVER_PATH = path.join(__dirname, '../../../scripts/mock-realtime-server.js');
+
+let server: ChildProcess | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const startServer = () =>
+  new Promise<void>((resolve, reject) => {
+    server = spawn(process.execPath, [SERVER_PATH], { env: { ...process.env, PORT: String(PORT) } });
+    server.stdout!.on('data', (chunk) => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+    server.on('error', reject);
+  });
+
+const stopServer = () =>
+  new Promise<void>((resolve) => {
+    if (!server || server.exitCode !== null || server.signalCode !== null) return resolve();
+    server.on('exit', () => resolve());
+    server.kill();
+  });
+
+const waitForState = (state: RealtimeState) =>
+  new Promise<void>((resolve) => {
+    if (RealtimeClient.getState() === state) return resolve();
+    const stopListening = RealtimeClient.subscribeState((next) => {
+      if (next === state) {
+        stopListening();
+        resolve();
+      }
+    });
+  });
+
+describe('RealtimeClient against the mock server', () => {
+  beforeAll(async () => {
+    // Node 20 has no WebSocket of its own
+    (global as any).WebSocket = WebSocket;
+    process.env.EXPO_PUBLIC_REALTIME_URL = `ws://127.0.0.1:${PORT}/ws`;
+    await startServer();
+  });
+
+  afterAll(async () => {
+    // Stops the polling and reconnect timers too
+    unsubscribe?.();
+    await stopServer();
+  });
+
+  it('streams status updates for the subscribed devices and falls back to polling when the server goes away', async () => {
+    const statuses: DeviceCurrentStatus[] = [];
+    const received = new Promise<void>((resolve) => {
+      unsubscribe = RealtimeClient.subscribe(['DEV-1'], {
+        onStatus: (status) => {
+          statuses.push(status);
+          resolve();
+        },
+      });
+    });
+
+    await waitForState('open');
+    await received;
+    expect(statuses[0]).toEqual(expect.objectContaining({ device_id: 'DEV-1', online: true }));
+
+    await stopServer();
+    await waitForState('polling');
+    expect(deviceAPI.getCurrentStatuses).toHaveBeenCalledWith(['DEV-1']);
+  }, 15000);
+});
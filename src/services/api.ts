@@ -1,36 +1,187 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios from 'axios';
-import { API_BASE_URL } from '../constants/theme';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { Platform } from 'react-native';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { Environment } from '../utils/environment';
+import { createLogger } from '../utils/logger';
+import { SecureStorage } from '../utils/secure-storage';
+
+const log = createLogger('API');
 
 const AUTH_TOKEN_KEY = '@iotux_auth_token';
 const USER_DATA_KEY = '@iotux_user_data';
+const REFRESH_TOKEN_KEY = '@iotux_refresh_token';
+const TOKEN_EXPIRES_AT_KEY = '@iotux_token_expires_at';
+// Secrets go to SecureStorage, the rest stays in AsyncStorage
+const SECRET_KEYS = [AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY];
+// Every environment keeps its own session; see Environment.scopedKey
+const sessionKey = (key: string) => Environment.scopedKey(key);
+const TOKEN_FIELDS = ['auth_token', 'refresh_token', 'expires_in', 'expires_at'] as const;
+
+// Renew a little before the server would start rejecting the token
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Requests that must never trigger a refresh themselves
+const AUTH_ENDPOINTS = ['/login', '/register', '/auth/refresh'];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Leave the session alone: no renewal and no clearing on 401, the caller just gets the error
+    skipSessionRecovery?: boolean;
+  }
+}
 
-// Create axios instance
+// Create axios instance; the base URL follows the selected environment
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: Environment.getBaseUrl(),
   timeout: 15000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+let legacyMigration: Promise<void> | null = null;
+let capabilitiesRequest: Promise<ServerCapabilities> | null = null;
+
+Environment.subscribe((env) => {
+  api.defaults.baseURL = env.baseUrl;
+  // A different server may support different things
+  capabilitiesRequest = null;
+});
+
+// Older versions kept tokens in plain AsyncStorage, including inside the saved user
+const migrateLegacySession = (): Promise<void> => {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      await Environment.init();
+      // Only production existed before, so the unscoped keys are the legacy ones
+      await SecureStorage.migrateFromAsyncStorage(SECRET_KEYS);
+      const userData = await AsyncStorage.getItem(USER_DATA_KEY);
+      if (userData) {
+        try {
+          await AsyncStorage.setItem(USER_DATA_KEY, JSON.stringify(withoutTokens(JSON.parse(userData))));
+        } catch (error) {
+          log.error('Failed to clean stored user data:', error);
+        }
+      }
+    })();
+  }
+  return legacyMigration;
+};
+
+export const getAuthToken = async (): Promise<string | null> => {
+  await migrateLegacySession();
+  return SecureStorage.getItem(sessionKey(AUTH_TOKEN_KEY));
+};
+
+interface SessionTokens {
+  auth_token: string;
+  refresh_token?: string | null;
+  // Seconds from now, or an absolute ISO timestamp
+  expires_in?: number | null;
+  expires_at?: string | null;
+}
+
+const saveTokens = async (tokens: SessionTokens) => {
+  const expiresAt = tokens.expires_at
+    ? new Date(tokens.expires_at).getTime()
+    : tokens.expires_in
+    ? Date.now() + tokens.expires_in * 1000
+    : null;
+
+  await SecureStorage.setItem(sessionKey(AUTH_TOKEN_KEY), tokens.auth_token);
+  if (tokens.refresh_token) {
+    await SecureStorage.setItem(sessionKey(REFRESH_TOKEN_KEY), tokens.refresh_token);
+  }
+  if (expiresAt && !isNaN(expiresAt)) {
+    await AsyncStorage.setItem(sessionKey(TOKEN_EXPIRES_AT_KEY), String(expiresAt));
+  } else {
+    await AsyncStorage.removeItem(sessionKey(TOKEN_EXPIRES_AT_KEY));
+  }
+};
+
+const clearSession = async () => {
+  await SecureStorage.multiRemove(SECRET_KEYS.map(sessionKey));
+  await AsyncStorage.multiRemove([USER_DATA_KEY, TOKEN_EXPIRES_AT_KEY].map(sessionKey));
+};
+
+// The profile we keep around for the UI, minus anything that grants access
+const withoutTokens = (userData: User): StoredUser => {
+  const profile: Record<string, unknown> = { ...userData };
+  TOKEN_FIELDS.forEach((field) => delete profile[field]);
+  return profile as StoredUser;
+};
+
+const saveUser = (userData: User) =>
+  AsyncStorage.setItem(sessionKey(USER_DATA_KEY), JSON.stringify(withoutTokens(userData)));
+
+let refreshRequest: Promise<string> | null = null;
+
+/**
+ * Trade the refresh token for a new auth token. Everyone who hits a 401
+ * while a refresh is running waits for that same call. Rejects with
+ * `isAuthError` set when the server refuses the refresh token itself.
+ */
+export const refreshSession = (): Promise<string> => {
+  if (!refreshRequest) {
+    refreshRequest = (async () => {
+      await migrateLegacySession();
+      const refreshToken = await SecureStorage.getItem(sessionKey(REFRESH_TOKEN_KEY));
+      if (!refreshToken) {
+        throw Object.assign(new Error('No refresh token'), { isAuthError: true });
+      }
+
+      try {
+        // Plain axios so this call skips our own interceptors
+        const response = await axios.post<SessionTokens>(
+          `${Environment.getBaseUrl()}/auth/refresh`,
+          { refresh_token: refreshToken },
+          { timeout: api.defaults.timeout }
+        );
+        await saveTokens(response.data);
+        log.info('🔄 Session renewed');
+        return response.data.auth_token;
+      } catch (error: any) {
+        const status = error.response?.status;
+        if (status === 400 || status === 401 || status === 403) {
+          error.isAuthError = true;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+};
+
+const isAuthEndpoint = (url?: string) => !!url && AUTH_ENDPOINTS.some((path) => url.endsWith(path));
+
+const isTokenExpiring = async () => {
+  const expiresAt = Number(await AsyncStorage.getItem(sessionKey(TOKEN_EXPIRES_AT_KEY)));
+  return expiresAt > 0 && expiresAt - Date.now() < REFRESH_MARGIN_MS;
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   async (config) => {
-    const token = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+    // Requests made before the saved environment loaded still go to the right server
+    await Environment.init();
+    config.baseURL = Environment.getBaseUrl();
+
+    // Renew ahead of expiry instead of waiting for a 401
+    if (!isAuthEndpoint(config.url) && !config.skipSessionRecovery && (await isTokenExpiring())) {
+      await refreshSession().catch(() => {
+        // The 401 path below decides what happens next
+      });
+    }
+
+    const token = await getAuthToken();
     if (token) {
       config.headers['X-Auth-Token'] = token;
-      console.log('Request with token:', {
-        url: config.url,
-        method: config.method,
-        hasToken: true,
-      });
-    } else {
-      console.log('Request without token:', {
-        url: config.url,
-        method: config.method,
-      });
     }
+    log.debug(`${config.method?.toUpperCase()} ${config.url}`);
     return config;
   },
   (error) => {
@@ -46,7 +197,7 @@ api.interceptors.response.use(
     
     // Log detailed error (but not 401 as that's expected when not logged in)
     if (status !== 401) {
-      console.error('API Error:', {
+      log.error('API Error:', {
         url: error.config?.url,
         method: error.config?.method,
         status: status,
@@ -55,10 +206,29 @@ api.interceptors.response.use(
       });
     }
     
+    const config = error.config as RetriableRequestConfig | undefined;
+    if (config?.skipSessionRecovery) {
+      return Promise.reject(error);
+    }
+    if (status === 401 && config && !config._retried && !isAuthEndpoint(config.url)) {
+      try {
+        const token = await refreshSession();
+        // Replay the original request once with the new token
+        config._retried = true;
+        config.headers['X-Auth-Token'] = token;
+        return api(config);
+      } catch (refreshError: any) {
+        if (!refreshError.isAuthError) {
+          // Couldn't reach the server to refresh; keep the session and let the caller retry
+          return Promise.reject(error);
+        }
+      }
+    }
+    
     if (status === 401) {
-      // Clear auth data on 401 - this is expected, user needs to login again
-      console.log('🔐 Session expired - please login again');
-      await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, USER_DATA_KEY]);
+      // Refresh impossible or refused - the user needs to login again
+      log.info('🔐 Session expired - please login again');
+      await clearSession();
       
       // Flag this error as handled so we don't show red screen
       error.isAuthError = true;
@@ -74,12 +244,74 @@ export interface User {
   name: string;
   email: string;
   auth_token: string;
+  // Only from servers that support session renewal
+  refresh_token?: string | null;
+  expires_in?: number | null;
+  expires_at?: string | null;
+}
+
+// React Native's FormData uploads the file at `uri` for a part of this shape
+interface ReactNativeFilePart {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+// Body of PUT /user/notification-preferences
+export interface NotificationPreferencesPayload {
+  muted_device_ids: string[];
+  quiet_hours: {
+    enabled: boolean;
+    // "22:00" local wall-clock time, read in `timezone`
+    start: string;
+    end: string;
+    timezone: string;
+    // Severities that still alert during quiet hours
+    allow_severities: string[];
+  };
+}
+
+export interface SessionInfo {
+  hasToken: boolean;
+  hasRefreshToken: boolean;
+  expiresAt: number | null;
 }
 
+export type StoredUser = Omit<User, (typeof TOKEN_FIELDS)[number]>;
+
+// owner: everything incl. sharing; operator: arm/disarm and commands; viewer: read-only
+export type DeviceRole = 'owner' | 'operator' | 'viewer';
+
+export type VehicleType = 'scooter' | 'motorcycle' | 'car' | 'bicycle' | 'truck' | 'other';
+
 export interface Device {
   id: string;
   name: string;
+  // The owner, which isn't you for a device shared with you
   user_id: number | null;
+  // Your access; servers without `device_sharing` leave it out (you own all your devices)
+  role?: DeviceRole;
+  // Vehicle details; only servers with `device_profile` store them, see DeviceMetadata
+  vehicle_type?: VehicleType | null;
+  plate?: string | null;
+  // Hex, e.g. "#DC2626"
+  color?: string | null;
+  photo_url?: string | null;
+  // Emoji drawn as the map marker
+  marker_icon?: string | null;
+}
+
+// null clears a field
+export type DeviceProfile = Pick<Device, 'name' | 'vehicle_type' | 'plate' | 'color' | 'photo_url' | 'marker_icon'>;
+
+export interface DeviceShare {
+  id: number;
+  email: string;
+  name?: string | null;
+  role: Exclude<DeviceRole, 'owner'>;
+  // Pending until the invitee has an account and accepted
+  status: 'pending' | 'active';
+  created_at: string;
 }
 
 export interface DeviceStatus {
@@ -97,6 +329,8 @@ export interface DeviceCurrentStatus extends DeviceStatus {
   lon: number | null;
 }
 
+export type AlertReviewState = 'new' | 'acknowledged' | 'false_alarm' | 'resolved';
+
 export interface Alert {
   id: number;
   device_id: string;
@@ -104,37 +338,116 @@ export interface Alert {
   lat: number | null;
   lon: number | null;
   created_at: string;
+  // Only sent by servers with `alert_review`
+  review_state?: AlertReviewState | null;
+  review_note?: string | null;
+  reviewed_at?: string | null;
+}
+
+// "GEOFENCE_EXIT: Home" -> "GEOFENCE_EXIT"
+export const getAlertType = (status: string) => (status || 'UNKNOWN').split(':')[0].trim();
+
+export interface AlertQuery {
+  deviceIds: string[];
+  // Alert type as returned by getAlertType
+  status?: string;
+  // ISO timestamps, both inclusive
+  from?: string;
+  to?: string;
+  // Free text matched against device name, device id and alert status
+  search?: string;
+  // Names by device id, so the local fallback can search them like the server does
+  deviceNames?: Record<string, string>;
+  // Cursor: only alerts with a lower id than this
+  before?: number;
+  limit?: number;
+}
+
+export interface AlertPage {
+  alerts: Alert[];
+  // Pass as `before` to get the next page; null when there is nothing older
+  nextCursor: number | null;
+}
+
+export interface CommandStatus {
+  command_id: string;
+  // "pending" | "delivered" | "executed" | "failed"
+  status: string;
+  detail?: string | null;
+}
+
+export interface ServerCapabilities {
+  // e.g. "batch_status"
+  features: string[];
 }
 
+// Per-device requests in flight at once when the server has no batch endpoint
+const FAN_OUT_CONCURRENCY = 4;
+
+const ALERT_PAGE_SIZE = 20;
+
+/**
+ * Features the server advertises. Older servers don't have the endpoint at
+ * all, which means "no optional features". Fetched once per session.
+ */
+export const getServerCapabilities = (): Promise<ServerCapabilities> => {
+  if (!capabilitiesRequest) {
+    capabilitiesRequest = api
+      .get<ServerCapabilities>('/api/capabilities')
+      .then((response) => ({
+        features: Array.isArray(response.data?.features) ? response.data.features : [],
+      }))
+      .catch((error) => {
+        if (error.response?.status === 404) {
+          return { features: [] };
+        }
+        // Network trouble, ask again next time
+        capabilitiesRequest = null;
+        throw error;
+      });
+  }
+  return capabilitiesRequest;
+};
+
+const supportsFeature = async (feature: string): Promise<boolean> => {
+  try {
+    const capabilities = await getServerCapabilities();
+    return capabilities.features.includes(feature);
+  } catch {
+    return false;
+  }
+};
+
 // Auth API
 export const authAPI = {
   register: async (name: string, email: string, password: string): Promise<User> => {
     const response = await api.post<User>('/register', { name, email, password });
     const userData = response.data;
-    await AsyncStorage.setItem(AUTH_TOKEN_KEY, userData.auth_token);
-    await AsyncStorage.setItem(USER_DATA_KEY, JSON.stringify(userData));
+    await saveTokens(userData);
+    await saveUser(userData);
     return userData;
   },
 
   login: async (email: string, password: string): Promise<User> => {
     const response = await api.post<User>('/login', { email, password });
     const userData = response.data;
-    await AsyncStorage.setItem(AUTH_TOKEN_KEY, userData.auth_token);
-    await AsyncStorage.setItem(USER_DATA_KEY, JSON.stringify(userData));
+    await saveTokens(userData);
+    await saveUser(userData);
     return userData;
   },
 
   logout: async (): Promise<void> => {
-    await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, USER_DATA_KEY]);
+    await clearSession();
   },
 
-  getCurrentUser: async (): Promise<User | null> => {
-    const userData = await AsyncStorage.getItem(USER_DATA_KEY);
+  getCurrentUser: async (): Promise<StoredUser | null> => {
+    await migrateLegacySession();
+    const userData = await AsyncStorage.getItem(sessionKey(USER_DATA_KEY));
     return userData ? JSON.parse(userData) : null;
   },
 
   isAuthenticated: async (): Promise<boolean> => {
-    const token = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+    const token = await getAuthToken();
     if (!token) {
       return false;
     }
@@ -144,9 +457,29 @@ export const authAPI = {
     return true;
   },
 
+  // What the app holds for the current session; never the tokens themselves
+  getSessionInfo: async (): Promise<SessionInfo> => {
+    const hasToken = !!(await getAuthToken());
+    const expiresAt = Number(await AsyncStorage.getItem(sessionKey(TOKEN_EXPIRES_AT_KEY)));
+    return {
+      hasToken,
+      hasRefreshToken: !!(await SecureStorage.getItem(sessionKey(REFRESH_TOKEN_KEY))),
+      expiresAt: expiresAt > 0 ? expiresAt : null,
+    };
+  },
+
+  // Resolves when the server accepts the current token as is; read-only, a 401 is only reported
+  checkSession: async (): Promise<void> => {
+    await api.get('/user/me', { skipSessionRecovery: true });
+  },
+
   syncPushToken: async (pushToken: string): Promise<void> => {
     await api.post('/user/push-token', { token: pushToken });
   },
+
+  syncNotificationPreferences: async (preferences: NotificationPreferencesPayload): Promise<void> => {
+    await api.put('/user/notification-preferences', preferences);
+  },
 };
 
 // Device API
@@ -156,10 +489,12 @@ export const deviceAPI = {
     return response.data;
   },
 
-  registerDevice: async (deviceId: string, name: string): Promise<Device> => {
+  // The pairing secret comes from a scanned label; typed-in IDs go without
+  registerDevice: async (deviceId: string, name: string, pairingSecret?: string): Promise<Device> => {
     const response = await api.post<Device>('/devices/register', {
       device_id: deviceId,
       name,
+      ...(pairingSecret ? { pairing_secret: pairingSecret } : {}),
     });
     return response.data;
   },
@@ -179,18 +514,170 @@ export const deviceAPI = {
     return response.data;
   },
 
+  /**
+   * Current status for several devices in one round trip when the server
+   * supports `batch_status`, otherwise a throttled per-device fan-out.
+   * Devices whose status couldn't be fetched are left out of the result.
+   */
+  getCurrentStatuses: async (deviceIds: string[]): Promise<DeviceCurrentStatus[]> => {
+    if (deviceIds.length === 0) return [];
+
+    if (await supportsFeature('batch_status')) {
+      const response = await api.post<DeviceCurrentStatus[]>('/devices/current', {
+        device_ids: deviceIds,
+      });
+      return Array.isArray(response.data) ? response.data : [];
+    }
+
+    const statuses = await mapWithConcurrency(deviceIds, FAN_OUT_CONCURRENCY, (deviceId) =>
+      deviceAPI.getDeviceCurrentStatus(deviceId).catch((err) => {
+        log.warn(`Failed to get status for device ${deviceId}:`, err);
+        return null;
+      })
+    );
+    return statuses.filter((status): status is DeviceCurrentStatus => status !== null);
+  },
+
   getDeviceAlerts: async (deviceId: string): Promise<Alert[]> => {
     const response = await api.get<Alert[]>(`/api/devices/${deviceId}/alerts`);
     return response.data;
   },
 
+  /**
+   * One page of alert history across devices, newest (highest id) first.
+   * Servers with `alert_history` filter and paginate themselves; older ones
+   * only have the per-device list, which is filtered here instead.
+   */
+  getAlerts: async (query: AlertQuery): Promise<AlertPage> => {
+    const limit = query.limit ?? ALERT_PAGE_SIZE;
+    if (query.deviceIds.length === 0) return { alerts: [], nextCursor: null };
+
+    if (await supportsFeature('alert_history')) {
+      const response = await api.get<{ alerts: Alert[]; next_cursor: number | null }>('/api/alerts', {
+        params: {
+          device_id: query.deviceIds.join(','),
+          status: query.status,
+          from: query.from,
+          to: query.to,
+          q: query.search || undefined,
+          before: query.before,
+          limit,
+        },
+      });
+      return {
+        alerts: Array.isArray(response.data?.alerts) ? response.data.alerts : [],
+        nextCursor: response.data?.next_cursor ?? null,
+      };
+    }
+
+    const perDevice = await mapWithConcurrency(query.deviceIds, FAN_OUT_CONCURRENCY, (deviceId) =>
+      deviceAPI.getDeviceAlerts(deviceId).catch((err) => {
+        log.warn(`Failed to get alerts for device ${deviceId}:`, err);
+        return [] as Alert[];
+      })
+    );
+    const from = query.from ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to ? new Date(query.to).getTime() : Infinity;
+    const search = query.search?.trim().toLowerCase();
+    const matchesSearch = (alert: Alert) =>
+      !search || [alert.device_id, alert.status, query.deviceNames?.[alert.device_id]]
+        .some((text) => !!text && text.toLowerCase().includes(search));
+    const matching = perDevice
+      .flatMap((alerts) => (Array.isArray(alerts) ? alerts : []))
+      .filter((alert) => {
+        const createdAt = new Date(alert.created_at).getTime();
+        return (query.before == null || alert.id < query.before)
+          && (!query.status || getAlertType(alert.status) === query.status)
+          && createdAt >= from
+          && createdAt <= to
+          && matchesSearch(alert);
+      })
+      .sort((a, b) => b.id - a.id);
+
+    const alerts = matching.slice(0, limit);
+    return {
+      alerts,
+      nextCursor: matching.length > limit ? alerts[alerts.length - 1].id : null,
+    };
+  },
+
+  // Only servers with `alert_review` keep review state; returns false when this one can't
+  reviewAlerts: async (alertIds: number[], state: AlertReviewState, note?: string): Promise<boolean> => {
+    if (!(await supportsFeature('alert_review'))) return false;
+    await api.post('/api/alerts/review', { alert_ids: alertIds, state, note: note || null });
+    return true;
+  },
+
+  // Null when the server can't store device details; the caller keeps them locally instead
+  updateDevice: async (deviceId: string, changes: Partial<DeviceProfile>): Promise<Device | null> => {
+    if (!(await supportsFeature('device_profile'))) return null;
+    const response = await api.patch<Device>(`/devices/${deviceId}`, changes);
+    return response.data;
+  },
+
+  // Returns the hosted photo's URL, or null like updateDevice
+  uploadDevicePhoto: async (deviceId: string, uri: string): Promise<string | null> => {
+    if (!(await supportsFeature('device_profile'))) return null;
+    const form = new FormData();
+    if (Platform.OS === 'web') {
+      // The picker hands out a blob: URL on web; the browser's FormData wants the Blob itself
+      form.append('photo', await (await fetch(uri)).blob(), 'photo.jpg');
+    } else {
+      const part: ReactNativeFilePart = { uri, name: 'photo.jpg', type: 'image/jpeg' };
+      form.append('photo', part as unknown as Blob);
+    }
+    const response = await api.post<{ photo_url: string }>(`/devices/${deviceId}/photo`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.photo_url;
+  },
+
+  supportsSharing: (): Promise<boolean> => supportsFeature('device_sharing'),
+
+  // Everyone else with access to a device you own
+  getShares: async (deviceId: string): Promise<DeviceShare[]> => {
+    const response = await api.get<DeviceShare[]>(`/devices/${deviceId}/shares`);
+    return Array.isArray(response.data) ? response.data : [];
+  },
+
+  // Invites by email; people without an account get one on sign-up
+  shareDevice: async (deviceId: string, email: string, role: DeviceShare['role']): Promise<DeviceShare> => {
+    const response = await api.post<DeviceShare>(`/devices/${deviceId}/shares`, { email, role });
+    return response.data;
+  },
+
+  updateShare: async (deviceId: string, shareId: number, role: DeviceShare['role']): Promise<DeviceShare> => {
+    const response = await api.patch<DeviceShare>(`/devices/${deviceId}/shares/${shareId}`, { role });
+    return response.data;
+  },
+
+  revokeShare: async (deviceId: string, shareId: number): Promise<void> => {
+    await api.delete(`/devices/${deviceId}/shares/${shareId}`);
+  },
+
+  // Drops your own access to a device someone shared with you
+  leaveDevice: async (deviceId: string): Promise<void> => {
+    await api.delete(`/devices/${deviceId}/shares/me`);
+  },
+
   toggleArmedState: async (deviceId: string): Promise<{ device_id: string; armed_state: string }> => {
     const response = await api.post<{ device_id: string; armed_state: string }>(`/devices/${deviceId}/toggle`);
     return response.data;
   },
 
-  sendCommand: async (deviceId: string, command: string, value?: string): Promise<any> => {
-    const response = await api.post(`/api/send/${deviceId}`, { command, value });
+  // Retries of the same command must reuse its idempotency key so the server
+  // can recognise them and execute the command only once
+  sendCommand: async (deviceId: string, command: string, value?: string, idempotencyKey?: string): Promise<any> => {
+    const response = await api.post(
+      `/api/send/${deviceId}`,
+      { command, value },
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+    );
+    return response.data;
+  },
+
+  getCommandStatus: async (deviceId: string, commandId: string): Promise<CommandStatus> => {
+    const response = await api.get<CommandStatus>(`/api/devices/${deviceId}/commands/${commandId}`);
     return response.data;
   },
 };
@@ -0,0 +1,297 @@
+// Realtime updates (WebSocket) dengan fallback ke polling
+import { mapWithConcurrency } from '../utils/concurrency';
+import { Environment } from '../utils/environment';
+import { createLogger } from '../utils/logger';
+import { NetworkService } from '../utils/network-utils';
+import { Alert, deviceAPI, DeviceCurrentStatus, getAuthToken } from './api';
+
+const log = createLogger('Realtime');
+
+export type RealtimeState = 'idle' | 'connecting' | 'open' | 'polling';
+
+export interface RealtimeHandlers {
+  onStatus?: (status: DeviceCurrentStatus) => void;
+  onAlert?: (alert: Alert) => void;
+}
+
+interface Subscriber {
+  deviceIds: Set<string>;
+  handlers: RealtimeHandlers;
+}
+
+/**
+ * Server -> client messages:
+ *   { "type": "status", "data": DeviceCurrentStatus }
+ *   { "type": "alert",  "data": Alert }
+ * Client -> server messages:
+ *   { "type": "auth", "token": "..." }   (first frame; kept out of the URL and access logs)
+ *   { "type": "subscribe", "device_ids": ["MOTOR-ABC123", ...] }
+ */
+type ServerMessage =
+  | { type: 'status'; data: DeviceCurrentStatus }
+  | { type: 'alert'; data: Alert };
+
+const POLL_INTERVAL_MS = 10000;
+const POLL_CONCURRENCY = 4;
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+// Point the app at scripts/mock-realtime-server.js with
+// EXPO_PUBLIC_REALTIME_URL=ws://<your-ip>:8787/ws
+const getSocketUrl = () =>
+  process.env.EXPO_PUBLIC_REALTIME_URL || `${Environment.getBaseUrl().replace(/^http/, 'ws')}/ws`;
+
+export class RealtimeClient {
+  private static subscribers: Subscriber[] = [];
+  private static stateListeners: ((state: RealtimeState) => void)[] = [];
+  private static state: RealtimeState = 'idle';
+  private static socket: WebSocket | null = null;
+  // Bumped by every connect/close so a connect still awaiting its token knows it was superseded
+  private static connectGeneration = 0;
+  private static reconnectAttempts = 0;
+  private static reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private static pollTimer: ReturnType<typeof setInterval> | null = null;
+  private static lastAlertIds = new Map<string, number>();
+  private static unsubscribeNetwork: (() => void) | null = null;
+  private static unsubscribeEnvironment: (() => void) | null = null;
+
+  /**
+   * Receive status/alert updates for the given devices. The returned
+   * function unsubscribes; the socket closes when nobody is listening.
+   */
+  static subscribe(deviceIds: string[], handlers: RealtimeHandlers): () => void {
+    const subscriber: Subscriber = { deviceIds: new Set(deviceIds), handlers };
+    this.subscribers.push(subscriber);
+
+    if (this.state === 'idle') {
+      this.start();
+    } else {
+      this.sendSubscriptions();
+    }
+
+    return () => {
+      this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+      if (this.subscribers.length === 0) {
+        this.stop();
+      } else {
+        this.sendSubscriptions();
+      }
+    };
+  }
+
+  static getState(): RealtimeState {
+    return this.state;
+  }
+
+  static subscribeState(callback: (state: RealtimeState) => void) {
+    this.stateListeners.push(callback);
+    return () => {
+      this.stateListeners = this.stateListeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  // Drop the current socket and connect again right away (e.g. after login)
+  static reconnect() {
+    if (this.state === 'idle') return;
+    this.closeSocket();
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  private static start() {
+    this.unsubscribeNetwork = NetworkService.subscribe((isConnected) => {
+      if (isConnected && this.state !== 'open') {
+        this.reconnect();
+      }
+    });
+    // The socket belongs to whichever backend is selected
+    this.unsubscribeEnvironment = Environment.subscribe(() => {
+      this.lastAlertIds.clear();
+      this.reconnect();
+    });
+    this.connect();
+  }
+
+  private static stop() {
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    this.unsubscribeEnvironment?.();
+    this.unsubscribeEnvironment = null;
+    this.closeSocket();
+    this.stopPolling();
+    this.reconnectAttempts = 0;
+    this.lastAlertIds.clear();
+    this.setState('idle');
+  }
+
+  private static async connect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const generation = ++this.connectGeneration;
+    const token = await getAuthToken();
+    if (generation !== this.connectGeneration || this.subscribers.length === 0) return;
+    if (!token) {
+      this.startPolling();
+      return;
+    }
+
+    // Only one socket at a time; the old one's handlers ignore it from here on
+    this.socket?.close();
+    this.setState('connecting');
+    const socket = new WebSocket(getSocketUrl());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      socket.send(JSON.stringify({ type: 'auth', token }));
+      this.reconnectAttempts = 0;
+      this.stopPolling();
+      this.setState('open');
+      this.sendSubscriptions();
+    };
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      // onclose always follows, reconnect is scheduled there
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.startPolling();
+      this.scheduleReconnect();
+    };
+  }
+
+  private static scheduleReconnect() {
+    if (this.subscribers.length === 0 || this.reconnectTimer) return;
+
+    const delay = Math.min(MIN_BACKOFF_MS * 2 ** this.reconnectAttempts, MAX_BACKOFF_MS);
+    // Jitter so a fleet of phones doesn't reconnect in lockstep after an outage
+    const jitter = Math.random() * delay * 0.2;
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay + jitter);
+  }
+
+  private static closeSocket() {
+    this.connectGeneration++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private static sendSubscriptions() {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ type: 'subscribe', device_ids: this.getDeviceIds() }));
+  }
+
+  private static handleMessage(raw: unknown) {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      log.warn('Ignoring malformed realtime message');
+      return;
+    }
+
+    if (message.type === 'status' && message.data?.device_id) {
+      this.emitStatus(message.data);
+    } else if (message.type === 'alert' && message.data?.device_id) {
+      this.lastAlertIds.set(
+        message.data.device_id,
+        Math.max(message.data.id, this.lastAlertIds.get(message.data.device_id) ?? 0)
+      );
+      this.emitAlert(message.data);
+    }
+  }
+
+  private static startPolling() {
+    this.setState('polling');
+    if (this.pollTimer) return;
+
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  private static stopPolling() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private static async poll() {
+    if (!NetworkService.getConnectionStatus()) return;
+
+    const deviceIds = this.getDeviceIds();
+    try {
+      const statuses = await deviceAPI.getCurrentStatuses(deviceIds);
+      statuses.forEach((status) => this.emitStatus(status));
+    } catch (error) {
+      log.warn('Realtime status poll failed:', error);
+    }
+
+    await mapWithConcurrency(deviceIds, POLL_CONCURRENCY, async (deviceId) => {
+      try {
+        const alerts = await deviceAPI.getDeviceAlerts(deviceId);
+        this.emitNewAlerts(deviceId, alerts);
+      } catch (error) {
+        log.warn(`Realtime poll failed for ${deviceId}:`, error);
+      }
+    });
+  }
+
+  // The first poll only records a baseline; screens load the full list themselves
+  private static emitNewAlerts(deviceId: string, alerts: Alert[]) {
+    if (!Array.isArray(alerts)) return;
+
+    const newestId = alerts.reduce((max, alert) => Math.max(max, alert.id), 0);
+    const lastSeen = this.lastAlertIds.get(deviceId);
+    this.lastAlertIds.set(deviceId, Math.max(newestId, lastSeen ?? 0));
+    if (lastSeen == null) return;
+
+    alerts
+      .filter((alert) => alert.id > lastSeen)
+      .sort((a, b) => a.id - b.id)
+      .forEach((alert) => this.emitAlert(alert));
+  }
+
+  private static emitStatus(status: DeviceCurrentStatus) {
+    this.subscribers
+      .filter((s) => s.deviceIds.has(status.device_id))
+      .forEach((s) => s.handlers.onStatus?.(status));
+  }
+
+  private static emitAlert(alert: Alert) {
+    this.subscribers
+      .filter((s) => s.deviceIds.has(alert.device_id))
+      .forEach((s) => s.handlers.onAlert?.(alert));
+  }
+
+  private static getDeviceIds(): string[] {
+    const ids = new Set<string>();
+    this.subscribers.forEach((s) => s.deviceIds.forEach((id) => ids.add(id)));
+    return [...ids];
+  }
+
+  private static setState(state: RealtimeState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,139 @@
+import { deviceAPI } from '../../services/api';
+import { CommandQueue } from '../command-queue';
+import { CommandTracker } from '../command-tracker';
+import { presentLocalNotification } from '../local-notifications';
+import { NetworkService } from '../network-utils';
+
+jest.mock('../../services/api', () => ({ deviceAPI: { sendCommand: jest.fn() } }));
+jest.mock('../command-tracker', () => ({
+  CommandTracker: { queued: jest.fn(), sent: jest.fn(), failed: jest.fn(), forget: jest.fn() },
+}));
+jest.mock('../local-notifications', () => ({ presentLocalNotification: jest.fn() }));
+jest.mock('../network-utils', () => ({
+  NetworkService: { getConnectionStatus: jest.fn(() => true), subscribe: jest.fn() },
+}));
+
+const sendCommand = deviceAPI.sendCommand as jest.Mock;
+const getConnectionStatus = NetworkService.getConnectionStatus as jest.Mock;
+
+const START = new Date('2026-01-01T08:00:00Z').getTime();
+const serverError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+// Moves the clock and lets the queue look at it again
+const advanceTo = async (time: number) => {
+  jest.setSystemTime(time);
+  await CommandQueue.processQueue();
+};
+
+describe('CommandQueue', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+    jest.clearAllMocks();
+    getConnectionStatus.mockReturnValue(true);
+    await CommandQueue.clearQueue();
+  });
+
+  afterEach(async () => {
+    await CommandQueue.clearQueue();
+    jest.useRealTimers();
+  });
+
+  describe('TTL', () => {
+    it('gives each command its own lifetime and the rest 30 minutes', async () => {
+      getConnectionStatus.mockReturnValue(false);
+      const buzz = await CommandQueue.addCommand('DEV-1', 'BUZZ');
+      const arm = await CommandQueue.addCommand('DEV-1', 'ARM');
+      const interval = await CommandQueue.addCommand('DEV-1', 'SET_REPORT_INTERVAL', '60');
+
+      expect(CommandQueue.getCommand(buzz)?.expiresAt).toBe(START + 2 * 60 * 1000);
+      expect(CommandQueue.getCommand(arm)?.expiresAt).toBe(START + 15 * 60 * 1000);
+      expect(CommandQueue.getCommand(interval)?.expiresAt).toBe(START + 30 * 60 * 1000);
+    });
+
+    it('expires a command that could not be sent in time, even while offline', async () => {
+      getConnectionStatus.mockReturnValue(false);
+      const id = await CommandQueue.addCommand('DEV-1', 'BUZZ');
+
+      await advanceTo(START + 2 * 60 * 1000 - 1);
+      expect(CommandQueue.getCommand(id)?.status).toBe('pending');
+
+      await advanceTo(START + 2 * 60 * 1000);
+      expect(CommandQueue.getCommand(id)?.status).toBe('expired');
+      expect(CommandTracker.failed).toHaveBeenCalledWith(id, 'Expired before it could be sent');
+      expect(presentLocalNotification).toHaveBeenCalledWith(
+        '⌛ BUZZ expired',
+        expect.any(String),
+        expect.objectContaining({ type: 'command_failed', commandId: id })
+      );
+      expect(CommandQueue.getPendingCount()).toBe(0);
+    });
+  });
+
+  describe('backoff', () => {
+    it('doubles the wait after every failed attempt, plus up to 20% jitter', async () => {
+      sendCommand.mockRejectedValue(serverError(503));
+      const id = await CommandQueue.addCommand('DEV-1', 'SET_REPORT_INTERVAL', '60');
+
+      let now = START;
+      for (const delay of [2000, 4000, 8000, 16000]) {
+        const cmd = CommandQueue.getCommand(id)!;
+        expect(cmd.status).toBe('failed');
+        expect(cmd.nextAttemptAt).toBeGreaterThanOrEqual(now + delay);
+        expect(cmd.nextAttemptAt).toBeLessThanOrEqual(now + delay * 1.2);
+
+        // Not retried before its time
+        await advanceTo(cmd.nextAttemptAt - 1);
+        expect(sendCommand).toHaveBeenCalledTimes(cmd.retryCount);
+
+        now = cmd.nextAttemptAt;
+        await advanceTo(now);
+      }
+      expect(sendCommand).toHaveBeenCalledTimes(5);
+    });
+
+    it('gives up after five attempts', async () => {
+      sendCommand.mockRejectedValue(serverError(500));
+      const id = await CommandQueue.addCommand('DEV-1', 'SET_REPORT_INTERVAL', '60');
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        await advanceTo(CommandQueue.getCommand(id)!.nextAttemptAt);
+      }
+
+      const cmd = CommandQueue.getCommand(id)!;
+      expect(cmd.status).toBe('dropped');
+      expect(cmd.lastError).toMatch(/^Gave up after 5 attempts/);
+      expect(sendCommand).toHaveBeenCalledTimes(5);
+    });
+
+    it('drops a command the server refused instead of retrying it', async () => {
+      sendCommand.mockRejectedValue(serverError(403));
+      const id = await CommandQueue.addCommand('DEV-1', 'BUZZ');
+
+      expect(CommandQueue.getCommand(id)?.status).toBe('dropped');
+      expect(sendCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries rate limiting and timeouts', async () => {
+      sendCommand.mockRejectedValueOnce(serverError(429)).mockRejectedValueOnce(serverError(408));
+      const first = await CommandQueue.addCommand('DEV-1', 'BUZZ');
+      const second = await CommandQueue.addCommand('DEV-2', 'BUZZ');
+
+      expect(CommandQueue.getCommand(first)?.status).toBe('failed');
+      expect(CommandQueue.getCommand(second)?.status).toBe('failed');
+    });
+
+    it('reuses the idempotency key on every retry and forgets the command once sent', async () => {
+      sendCommand.mockRejectedValueOnce(serverError(502)).mockResolvedValueOnce({ command_id: 1 });
+      const id = await CommandQueue.addCommand('DEV-1', 'BUZZ');
+      const key = CommandQueue.getCommand(id)!.idempotencyKey;
+
+      await advanceTo(CommandQueue.getCommand(id)!.nextAttemptAt);
+
+      expect(sendCommand).toHaveBeenNthCalledWith(1, 'DEV-1', 'BUZZ', undefined, key);
+      expect(sendCommand).toHaveBeenNthCalledWith(2, 'DEV-1', 'BUZZ', undefined, key);
+      expect(CommandTracker.sent).toHaveBeenCalledWith(id, { command_id: 1 });
+      expect(CommandQueue.getCommand(id)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { formatCommandValue, getCommandDefinition, validateCommandValue } from '../device-commands';
+
+const interval = getCommandDefinition('SET_REPORT_INTERVAL')!;
+const sensitivity = getCommandDefinition('SET_MOTION_SENSITIVITY')!;
+const gpsMode = getCommandDefinition('SET_GPS_MODE')!;
+
+describe('getCommandDefinition', () => {
+  it('only knows the catalog commands', () => {
+    expect(interval.param.type).toBe('number');
+    expect(getCommandDefinition('BUZZ')).toBeUndefined();
+  });
+});
+
+describe('validateCommandValue', () => {
+  it('accepts whole numbers within the range, bounds included', () => {
+    expect(validateCommandValue(interval, '10')).toBeNull();
+    expect(validateCommandValue(interval, ' 3600 ')).toBeNull();
+  });
+
+  it('rejects numbers outside the range', () => {
+    expect(validateCommandValue(interval, '9')).toBe('Interval must be between 10 and 3600 s');
+    expect(validateCommandValue(interval, '3601')).toBe('Interval must be between 10 and 3600 s');
+  });
+
+  it('rejects anything that is not a whole number', () => {
+    for (const value of ['', '60.5', '-60', '1e3', 'sixty', '6 0']) {
+      expect(validateCommandValue(interval, value)).toBe('Interval must be a whole number');
+    }
+  });
+
+  it('only accepts the listed choices', () => {
+    expect(validateCommandValue(sensitivity, 'high')).toBeNull();
+    expect(validateCommandValue(sensitivity, 'HIGH')).toBe('Please choose a sensitivity');
+    expect(validateCommandValue(gpsMode, '')).toBe('Please choose a mode');
+  });
+});
+
+describe('confirm', () => {
+  it('asks before values that drain the battery or weaken protection', () => {
+    expect(interval.confirm?.('29')).toMatch(/battery/);
+    expect(interval.confirm?.('30')).toBeNull();
+    expect(sensitivity.confirm?.('low')).toMatch(/miss/);
+    expect(sensitivity.confirm?.('medium')).toBeNull();
+    expect(gpsMode.confirm?.('power_saving')).toMatch(/minutes old/);
+    expect(gpsMode.confirm?.('balanced')).toBeNull();
+  });
+
+  it("isn't asked for the buzzer duration", () => {
+    expect(getCommandDefinition('SET_BUZZER_DURATION')?.confirm).toBeUndefined();
+  });
+});
+
+describe('formatCommandValue', () => {
+  it('adds the unit to numbers and uses the label for choices', () => {
+    expect(formatCommandValue('SET_REPORT_INTERVAL', '60')).toBe('60 s');
+    expect(formatCommandValue('SET_GPS_MODE', 'power_saving')).toBe('Power Saving');
+  });
+
+  it('passes through values it cannot describe', () => {
+    expect(formatCommandValue('SET_GPS_MODE', 'turbo')).toBe('turbo');
+    expect(formatCommandValue('BUZZ', '5')).toBe('5');
+    expect(formatCommandValue('SET_REPORT_INTERVAL', undefined)).toBeUndefined();
+  });
+});
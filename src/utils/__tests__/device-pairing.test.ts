@@ -0,0 +1,63 @@
+import { parseDeviceLabel, validateDeviceId } from '../device-pairing';
+
+describe('validateDeviceId', () => {
+  it('accepts letters and digits in dash or underscore separated groups', () => {
+    expect(validateDeviceId('MOTOR-ABC123')).toBeNull();
+    expect(validateDeviceId('  tracker_01  ')).toBeNull();
+    expect(validateDeviceId('ABCD')).toBeNull();
+  });
+
+  it('asks for an ID when empty', () => {
+    expect(validateDeviceId('   ')).toBe('Please enter the device ID');
+  });
+
+  it('rejects IDs that are too short or too long', () => {
+    expect(validateDeviceId('ABC')).toBe('Device ID must be 4-64 characters');
+    expect(validateDeviceId('A'.repeat(65))).toBe('Device ID must be 4-64 characters');
+    expect(validateDeviceId('A'.repeat(64))).toBeNull();
+  });
+
+  it('rejects other characters and stray separators', () => {
+    for (const id of ['MOTOR ABC', 'MOTOR/ABC', '-MOTOR', 'MOTOR-', 'MOTOR--ABC', 'MÖTOR']) {
+      expect(validateDeviceId(id)).toMatch(/^Device ID can only contain/);
+    }
+  });
+});
+
+describe('parseDeviceLabel', () => {
+  it('reads pairing links', () => {
+    expect(parseDeviceLabel('iotux://pair?id=MOTOR-ABC123&secret=s3cr3t')).toEqual({
+      deviceId: 'MOTOR-ABC123',
+      secret: 's3cr3t',
+    });
+    expect(parseDeviceLabel('https://iot.fyuko.app/pair?device_id=MOTOR-ABC123')).toEqual({
+      deviceId: 'MOTOR-ABC123',
+      secret: undefined,
+    });
+  });
+
+  it('reads JSON labels', () => {
+    expect(parseDeviceLabel('{"id":"MOTOR-ABC123","secret":"s3cr3t"}')).toEqual({
+      deviceId: 'MOTOR-ABC123',
+      secret: 's3cr3t',
+    });
+    expect(parseDeviceLabel('{"device_id":" MOTOR-ABC123 ","secret":"  "}')).toEqual({
+      deviceId: 'MOTOR-ABC123',
+      secret: undefined,
+    });
+  });
+
+  it('reads "ID;SECRET" and bare IDs', () => {
+    expect(parseDeviceLabel('MOTOR-ABC123;s3cr3t')).toEqual({ deviceId: 'MOTOR-ABC123', secret: 's3cr3t' });
+    expect(parseDeviceLabel(' MOTOR-ABC123\n')).toEqual({ deviceId: 'MOTOR-ABC123', secret: undefined });
+  });
+
+  it("returns null for labels that aren't ours", () => {
+    expect(parseDeviceLabel('')).toBeNull();
+    expect(parseDeviceLabel('https://example.com/some/page')).toBeNull();
+    expect(parseDeviceLabel('{"id":')).toBeNull();
+    expect(parseDeviceLabel('{"name":"MOTOR-ABC123"}')).toBeNull();
+    expect(parseDeviceLabel('Hello world')).toBeNull();
+    expect(parseDeviceLabel('iotux://pair?id=AB')).toBeNull();
+  });
+});
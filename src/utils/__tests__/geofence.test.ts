@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { distanceMeters, GeofenceMonitor, GeofenceStore, isInsideGeofence, isPointInPolygon } from '../geofence';
+import { presentLocalNotification } from '../local-notifications';
+import { SyntheticAlerts } from '../synthetic-alerts';
+
+jest.mock('../local-notifications', () => ({ presentLocalNotification: jest.fn() }));
+jest.mock('../notification-actions', () => ({ ALERT_CATEGORY: 'device_alert' }));
+jest.mock('../synthetic-alerts', () => ({
+  SyntheticAlerts: { add: jest.fn(async () => ({ id: -1 })) },
+}));
+
+const HOME = { lat: -6.2, lon: 106.8 };
+// About 1.1 km north of HOME
+const AWAY = { lat: -6.19, lon: 106.8 };
+
+const SQUARE = [
+  { lat: 0, lon: 0 },
+  { lat: 0, lon: 1 },
+  { lat: 1, lon: 1 },
+  { lat: 1, lon: 0 },
+];
+
+describe('distanceMeters', () => {
+  it('is zero for the same point', () => {
+    expect(distanceMeters(HOME, HOME)).toBe(0);
+  });
+
+  it('measures a hundredth of a degree of latitude as about 1.1 km', () => {
+    expect(distanceMeters(HOME, AWAY)).toBeCloseTo(1112, -1);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  it('finds points inside and outside a square', () => {
+    expect(isPointInPolygon({ lat: 0.5, lon: 0.5 }, SQUARE)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lon: 0.5 }, SQUARE)).toBe(false);
+    expect(isPointInPolygon({ lat: 0.5, lon: -0.1 }, SQUARE)).toBe(false);
+  });
+});
+
+describe('isInsideGeofence', () => {
+  it('uses the radius for circles', () => {
+    const circle = { type: 'circle' as const, center: HOME, radius: 500 };
+    expect(isInsideGeofence(HOME, circle)).toBe(true);
+    expect(isInsideGeofence(AWAY, circle)).toBe(false);
+    expect(isInsideGeofence(AWAY, { ...circle, radius: 2000 })).toBe(true);
+  });
+
+  it('never puts a point inside a polygon with fewer than three points', () => {
+    expect(isInsideGeofence({ lat: 0, lon: 0 }, { type: 'polygon', points: SQUARE.slice(0, 2) })).toBe(false);
+  });
+});
+
+describe('GeofenceMonitor.evaluate', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    await GeofenceStore.clear();
+  });
+
+  it('only reports a breach on an inside -> outside transition', async () => {
+    const fence = await GeofenceStore.add('DEV-1', 'Home', { type: 'circle', center: HOME, radius: 500 });
+
+    expect(await GeofenceMonitor.evaluate('DEV-1', 'Bike', AWAY.lat, AWAY.lon)).toEqual([]);
+    expect(await GeofenceMonitor.evaluate('DEV-1', 'Bike', HOME.lat, HOME.lon)).toEqual([]);
+    expect(await GeofenceMonitor.evaluate('DEV-1', 'Bike', AWAY.lat, AWAY.lon)).toEqual([fence]);
+    expect(await GeofenceMonitor.evaluate('DEV-1', 'Bike', AWAY.lat, AWAY.lon)).toEqual([]);
+
+    expect(SyntheticAlerts.add).toHaveBeenCalledTimes(1);
+    expect(SyntheticAlerts.add).toHaveBeenCalledWith('DEV-1', 'GEOFENCE_EXIT: Home', AWAY.lat, AWAY.lon);
+    expect(presentLocalNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores other devices' zones and invalid positions", async () => {
+    await GeofenceStore.add('DEV-2', 'Office', { type: 'circle', center: HOME, radius: 500 });
+
+    await GeofenceMonitor.evaluate('DEV-1', 'Bike', HOME.lat, HOME.lon);
+    expect(await GeofenceMonitor.evaluate('DEV-1', 'Bike', AWAY.lat, AWAY.lon)).toEqual([]);
+
+    await GeofenceMonitor.evaluate('DEV-2', 'Car', HOME.lat, HOME.lon);
+    expect(await GeofenceMonitor.evaluate('DEV-2', 'Car', null, null)).toEqual([]);
+    expect(await GeofenceMonitor.evaluate('DEV-2', 'Car', 0, 0)).toEqual([]);
+    expect(SyntheticAlerts.add).not.toHaveBeenCalled();
+  });
+
+  it('forgets the state of a removed zone', async () => {
+    const fence = await GeofenceStore.add('DEV-1', 'Home', { type: 'circle', center: HOME, radius: 500 });
+    await GeofenceMonitor.evaluate('DEV-1', 'Bike', HOME.lat, HOME.lon);
+    await GeofenceStore.remove(fence.id);
+
+    const stateKey = (await AsyncStorage.getAllKeys()).find((key) => key.includes('@geofence_state'));
+    expect(JSON.parse((await AsyncStorage.getItem(stateKey!))!)).toEqual({});
+  });
+});
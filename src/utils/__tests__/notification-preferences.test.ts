@@ -0,0 +1,123 @@
+import { authAPI } from '../../services/api';
+import { formatMinutes, getNotificationSeverity, NotificationSettings, QuietHours } from '../notification-preferences';
+
+jest.mock('../../services/api', () => ({ authAPI: { syncNotificationPreferences: jest.fn() } }));
+
+// Local wall-clock time, like the quiet hours themselves
+const at = (hours: number, minutes = 0) => new Date(2026, 0, 1, hours, minutes);
+
+const setQuietHours = (changes: Partial<QuietHours>) =>
+  NotificationSettings.update({
+    mutedDeviceIds: [],
+    quietHours: { enabled: true, start: 22 * 60, end: 7 * 60, allowedSeverities: ['theft'], ...changes },
+  });
+
+describe('getNotificationSeverity', () => {
+  it('prefers the severity the server sent', () => {
+    expect(getNotificationSeverity({ severity: 'low_battery', status: 'THEFT' })).toBe('low_battery');
+  });
+
+  it('guesses from the type or status otherwise', () => {
+    expect(getNotificationSeverity({ status: 'ALARM_TRIGGERED' })).toBe('theft');
+    expect(getNotificationSeverity({ status: 'GEOFENCE_EXIT: Home' })).toBe('movement');
+    expect(getNotificationSeverity({ type: 'device_offline' })).toBe('offline');
+    expect(getNotificationSeverity({ severity: 'bogus', status: 'battery low' })).toBe('low_battery');
+    expect(getNotificationSeverity(null)).toBe('general');
+  });
+});
+
+describe('formatMinutes', () => {
+  it('pads hours and minutes', () => {
+    expect(formatMinutes(7 * 60 + 5)).toBe('07:05');
+    expect(formatMinutes(22 * 60)).toBe('22:00');
+  });
+});
+
+describe('NotificationSettings quiet hours', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('is never quiet while disabled or when start equals end', async () => {
+    await setQuietHours({ enabled: false });
+    expect(NotificationSettings.isQuietTime(at(23))).toBe(false);
+
+    await setQuietHours({ start: 8 * 60, end: 8 * 60 });
+    expect(NotificationSettings.isQuietTime(at(8))).toBe(false);
+  });
+
+  it('handles a window within the same day', async () => {
+    await setQuietHours({ start: 13 * 60, end: 14 * 60 + 30 });
+    expect(NotificationSettings.isQuietTime(at(12, 59))).toBe(false);
+    expect(NotificationSettings.isQuietTime(at(13))).toBe(true);
+    expect(NotificationSettings.isQuietTime(at(14, 29))).toBe(true);
+    expect(NotificationSettings.isQuietTime(at(14, 30))).toBe(false);
+  });
+
+  it('handles a window that crosses midnight', async () => {
+    await setQuietHours({ start: 22 * 60, end: 7 * 60 });
+    expect(NotificationSettings.isQuietTime(at(21, 59))).toBe(false);
+    expect(NotificationSettings.isQuietTime(at(22))).toBe(true);
+    expect(NotificationSettings.isQuietTime(at(0))).toBe(true);
+    expect(NotificationSettings.isQuietTime(at(6, 59))).toBe(true);
+    expect(NotificationSettings.isQuietTime(at(7))).toBe(false);
+  });
+
+  describe('during quiet hours', () => {
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(at(23));
+      await setQuietHours({ allowedSeverities: ['low_battery'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('keeps disallowed severities in the list without sound', () => {
+      expect(NotificationSettings.getBehavior({ status: 'MOVEMENT' })).toEqual({
+        shouldShowBanner: false,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      });
+      expect(NotificationSettings.getChannelId({ status: 'MOVEMENT' })).toBe('quiet');
+    });
+
+    it('lets theft and the allowed severities through', () => {
+      expect(NotificationSettings.getBehavior({ status: 'THEFT' }).shouldPlaySound).toBe(true);
+      expect(NotificationSettings.getBehavior({ severity: 'low_battery' }).shouldPlaySound).toBe(true);
+      expect(NotificationSettings.getChannelId({ status: 'THEFT' })).toBe('theft_alarm');
+      expect(NotificationSettings.getChannelId({ severity: 'low_battery' })).toBe('low_battery');
+    });
+
+    it('is loud again once the window ends', () => {
+      jest.setSystemTime(at(7));
+      expect(NotificationSettings.getBehavior({ status: 'MOVEMENT' }).shouldPlaySound).toBe(true);
+      expect(NotificationSettings.getChannelId({ status: 'MOVEMENT' })).toBe('movement');
+    });
+  });
+
+  it('hides muted devices entirely, theft included', async () => {
+    await setQuietHours({ enabled: false });
+    await NotificationSettings.setDeviceMuted('DEV-1', true);
+
+    expect(NotificationSettings.getBehavior({ device_id: 'DEV-1', status: 'THEFT' }).shouldShowList).toBe(false);
+    expect(NotificationSettings.getBehavior({ deviceId: 'DEV-2', status: 'THEFT' }).shouldShowList).toBe(true);
+  });
+
+  it('sends the server wall-clock times and the severities it may still deliver', async () => {
+    await setQuietHours({ start: 22 * 60 + 30, end: 6 * 60, allowedSeverities: ['offline'] });
+
+    expect(authAPI.syncNotificationPreferences).toHaveBeenLastCalledWith({
+      muted_device_ids: [],
+      quiet_hours: {
+        enabled: true,
+        start: '22:30',
+        end: '06:00',
+        timezone: expect.any(String),
+        allow_severities: ['theft', 'offline'],
+      },
+    });
+  });
+});
@@ -0,0 +1,255 @@
+// Review alert (acknowledged / false alarm / resolved) dan pengelompokan jadi incident
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert, AlertReviewState, deviceAPI } from '../services/api';
+import { Environment } from './environment';
+import { createLogger } from './logger';
+import { NetworkService } from './network-utils';
+
+const log = createLogger('AlertReviews');
+
+export interface AlertReview {
+  state: AlertReviewState;
+  note?: string;
+  updatedAt: number;
+  // False until the server has it (or for servers that can't store it)
+  synced: boolean;
+}
+
+export interface Incident {
+  // Id of the first alert, stable while the incident grows
+  id: string;
+  deviceId: string;
+  // Newest first
+  alerts: Alert[];
+  startedAt: string;
+  endedAt: string;
+}
+
+interface StoredReviews {
+  // Alerts older than this predate reviewing and never count as unacknowledged
+  since: number;
+  reviews: Record<string, AlertReview>;
+}
+
+const ALERT_REVIEWS_KEY = '@alert_reviews';
+const MAX_REVIEWS = 2000;
+// Alerts from one device closer together than this belong to the same incident
+export const INCIDENT_GAP_MS = 15 * 60 * 1000;
+
+export const REVIEW_STATE_LABELS: Record<AlertReviewState, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  false_alarm: 'False alarm',
+  resolved: 'Resolved',
+};
+
+const toTime = (value: string | null | undefined) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+export class AlertReviews {
+  private static data: StoredReviews | null = null;
+  private static loading: Promise<StoredReviews> | null = null;
+  private static listeners: (() => void)[] = [];
+  private static unsubscribeNetwork: (() => void) | null = null;
+
+  static load(): Promise<StoredReviews> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        await Environment.init();
+        try {
+          const stored = await AsyncStorage.getItem(Environment.scopedKey(ALERT_REVIEWS_KEY));
+          this.data = stored ? JSON.parse(stored) : null;
+        } catch (error) {
+          log.error('Failed to load alert reviews:', error);
+        }
+        if (!this.data) {
+          this.data = { since: Date.now(), reviews: {} };
+          await this.save();
+        }
+
+        if (!this.unsubscribeNetwork) {
+          this.unsubscribeNetwork = NetworkService.subscribe((isConnected) => {
+            if (isConnected) this.syncPending();
+          });
+          // Alert ids are per backend, so are the reviews
+          Environment.subscribe(() => {
+            this.data = null;
+            this.loading = null;
+            this.load().then(() => this.notifyListeners());
+          });
+        }
+        this.notifyListeners();
+        this.syncPending();
+        return this.data;
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Effective review for an alert: a local change the server hasn't
+   * confirmed wins, otherwise whatever the server says.
+   */
+  static get(alert: Alert): { state: AlertReviewState; note?: string } {
+    const local = this.data?.reviews[String(alert.id)];
+    if (local && (!local.synced || local.updatedAt >= toTime(alert.reviewed_at))) {
+      return { state: local.state, note: local.note };
+    }
+    return { state: alert.review_state || 'new', note: alert.review_note ?? undefined };
+  }
+
+  static isUnacknowledged(alert: Alert): boolean {
+    if (!this.data || this.get(alert).state !== 'new') return false;
+    return toTime(alert.created_at) >= this.data.since;
+  }
+
+  static review(alerts: Alert[], state: AlertReviewState, note?: string) {
+    return this.reviewIds(alerts.map((alert) => alert.id), state, note);
+  }
+
+  // For callers that only have ids, e.g. a notification action
+  static async reviewIds(alertIds: number[], state: AlertReviewState, note?: string) {
+    const data = await this.load();
+    const updatedAt = Date.now();
+    const trimmedNote = note?.trim() || undefined;
+    alertIds.forEach((id) => {
+      data.reviews[String(id)] = { state, note: trimmedNote, updatedAt, synced: false };
+    });
+    this.prune();
+    await this.save();
+    this.notifyListeners();
+    await this.syncPending();
+  }
+
+  // Pushes unsynced reviews; ones with the same state and note go in one request
+  static async syncPending() {
+    const data = this.data;
+    if (!data || !NetworkService.getConnectionStatus()) return;
+
+    const batches = new Map<string, { review: AlertReview; ids: number[] }>();
+    Object.entries(data.reviews).forEach(([id, review]) => {
+      // Phone-generated alerts don't exist on the server
+      if (review.synced || Number(id) < 0) return;
+      const key = `${review.state}\u0000${review.note ?? ''}`;
+      const batch = batches.get(key) ?? { review, ids: [] };
+      batch.ids.push(Number(id));
+      batches.set(key, batch);
+    });
+    if (batches.size === 0) return;
+
+    const markSynced = (ids: number[], updatedAt?: number) => {
+      ids.forEach((id) => {
+        const current = data.reviews[String(id)];
+        // A newer change made while the request was out still needs sending
+        if (current && (updatedAt == null || current.updatedAt === updatedAt)) current.synced = true;
+      });
+    };
+
+    let changed = false;
+    for (const { review, ids } of batches.values()) {
+      try {
+        const stored = await deviceAPI.reviewAlerts(ids, review.state, review.note);
+        changed = true;
+        if (!stored) {
+          // Without server support the local copy is all there is; stop retrying
+          [...batches.values()].forEach((batch) => markSynced(batch.ids));
+          break;
+        }
+        markSynced(ids, review.updatedAt);
+      } catch (error) {
+        log.warn('Failed to sync alert reviews, will retry:', error);
+      }
+    }
+    // Cleared meanwhile (logout); the old account's reviews stay gone
+    if (changed && this.data === data) await this.save();
+  }
+
+  // This backend's reviews, on logout: unsynced ones must not go out under the next account's token
+  static async clear() {
+    await this.loading?.catch(() => {});
+    this.data = null;
+    this.loading = null;
+    try {
+      await AsyncStorage.removeItem(Environment.scopedKey(ALERT_REVIEWS_KEY));
+    } catch (error) {
+      log.error('Failed to clear alert reviews:', error);
+    }
+    this.notifyListeners();
+  }
+
+  static subscribe(callback: () => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private static prune() {
+    if (!this.data) return;
+    const entries = Object.entries(this.data.reviews);
+    if (entries.length <= MAX_REVIEWS) return;
+    entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt);
+    this.data.reviews = Object.fromEntries(entries.slice(0, MAX_REVIEWS));
+  }
+
+  private static async save() {
+    try {
+      await AsyncStorage.setItem(Environment.scopedKey(ALERT_REVIEWS_KEY), JSON.stringify(this.data));
+    } catch (error) {
+      log.error('Failed to save alert reviews:', error);
+    }
+  }
+
+  private static notifyListeners() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Bursts of alerts from one device become one incident. Input order doesn't
+ * matter; incidents come back newest first.
+ */
+export const groupIncidents = (alerts: Alert[], gapMs: number = INCIDENT_GAP_MS): Incident[] => {
+  const byDevice = new Map<string, Alert[]>();
+  alerts.forEach((alert) => {
+    const list = byDevice.get(alert.device_id) ?? [];
+    list.push(alert);
+    byDevice.set(alert.device_id, list);
+  });
+
+  const incidents: Incident[] = [];
+  byDevice.forEach((list, deviceId) => {
+    const sorted = [...list].sort((a, b) => toTime(a.created_at) - toTime(b.created_at));
+    let current: Alert[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      incidents.push({
+        id: `${deviceId}:${current[0].id}`,
+        deviceId,
+        alerts: [...current].reverse(),
+        startedAt: current[0].created_at,
+        endedAt: current[current.length - 1].created_at,
+      });
+      current = [];
+    };
+
+    sorted.forEach((alert) => {
+      const previous = current[current.length - 1];
+      if (previous && toTime(alert.created_at) - toTime(previous.created_at) > gapMs) {
+        flush();
+      }
+      current.push(alert);
+    });
+    flush();
+  });
+
+  return incidents.sort((a, b) => toTime(b.endedAt) - toTime(a.endedAt));
+};
+
+// Anything still new keeps the whole incident new; otherwise the latest decision
+export const getIncidentState = (incident: Incident): AlertReviewState => {
+  const states = incident.alerts.map((alert) => AlertReviews.get(alert).state);
+  return states.includes('new') ? 'new' : states[0];
+};
@@ -0,0 +1,185 @@
+// App lock dengan PIN lokal dan biometrik
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { createLogger } from './logger';
+import { SecureStorage } from './secure-storage';
+
+const log = createLogger('AppLock');
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometricsEnabled: boolean;
+  // How long the app may sit in the background before it locks again
+  idleTimeoutMs: number;
+}
+
+export type PinCheckResult =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number; lockedUntil: number | null };
+
+const SETTINGS_KEY = '@iotux_app_lock_settings';
+// Lockout state survives restarts, otherwise killing the app resets the counter;
+// kept next to the PIN hash so it can't be edited back to zero either
+const ATTEMPTS_KEY = '@iotux_app_lock_attempts';
+const PIN_HASH_KEY = '@iotux_app_lock_pin';
+
+export const PIN_LENGTH = 4;
+const MAX_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 30 * 60 * 1000;
+
+export const IDLE_TIMEOUT_OPTIONS = [
+  { label: 'Immediately', value: 0 },
+  { label: '1 minute', value: 60 * 1000 },
+  { label: '5 minutes', value: 5 * 60 * 1000 },
+  { label: '15 minutes', value: 15 * 60 * 1000 },
+];
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricsEnabled: false,
+  idleTimeoutMs: 60 * 1000,
+};
+
+interface AttemptState {
+  failures: number;
+  // Each lockout doubles the next one
+  lockouts: number;
+  lockedUntil: number | null;
+}
+
+const NO_ATTEMPTS: AttemptState = { failures: 0, lockouts: 0, lockedUntil: null };
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+export class AppLock {
+  private static settings: AppLockSettings = DEFAULT_SETTINGS;
+  private static listeners: ((settings: AppLockSettings) => void)[] = [];
+
+  static async loadSettings(): Promise<AppLockSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      this.settings = stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+      // A lock without a PIN would have no way to open it
+      if (this.settings.enabled && !(await SecureStorage.getItem(PIN_HASH_KEY))) {
+        this.settings = { ...this.settings, enabled: false };
+      }
+    } catch (error) {
+      log.error('Failed to load app lock settings:', error);
+    }
+    return this.settings;
+  }
+
+  static getSettings(): AppLockSettings {
+    return this.settings;
+  }
+
+  static async updateSettings(changes: Partial<AppLockSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.notifyListeners();
+  }
+
+  // Setting a PIN turns the lock on; the PIN itself is only kept as a salted hash
+  static async setPin(pin: string) {
+    const salt = Crypto.getRandomBytes(16).reduce((hex, b) => hex + b.toString(16).padStart(2, '0'), '');
+    await SecureStorage.setItem(PIN_HASH_KEY, `${salt}.${await hashPin(pin, salt)}`);
+    await this.clearAttempts();
+    await this.updateSettings({ enabled: true });
+    log.info('🔐 App lock PIN set');
+  }
+
+  static async disable() {
+    await SecureStorage.removeItem(PIN_HASH_KEY);
+    await this.clearAttempts();
+    await this.updateSettings({ enabled: false, biometricsEnabled: false });
+    log.info('🔓 App lock disabled');
+  }
+
+  static async verifyPin(pin: string): Promise<PinCheckResult> {
+    const attempts = await this.getAttempts();
+    if (attempts.lockedUntil && attempts.lockedUntil > Date.now()) {
+      return { ok: false, attemptsLeft: 0, lockedUntil: attempts.lockedUntil };
+    }
+
+    const stored = await SecureStorage.getItem(PIN_HASH_KEY);
+    const [salt, hash] = stored?.split('.') ?? [];
+    if (salt && hash && (await hashPin(pin, salt)) === hash) {
+      await this.clearAttempts();
+      return { ok: true };
+    }
+
+    const failures = attempts.failures + 1;
+    if (failures < MAX_ATTEMPTS) {
+      await this.saveAttempts({ ...attempts, failures, lockedUntil: null });
+      return { ok: false, attemptsLeft: MAX_ATTEMPTS - failures, lockedUntil: null };
+    }
+
+    const lockouts = attempts.lockouts + 1;
+    const lockedUntil = Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+    await this.saveAttempts({ failures: 0, lockouts, lockedUntil });
+    log.warn(`🚫 Too many wrong PINs, locked until ${new Date(lockedUntil).toLocaleTimeString()}`);
+    return { ok: false, attemptsLeft: 0, lockedUntil };
+  }
+
+  static async getLockedUntil(): Promise<number | null> {
+    const { lockedUntil } = await this.getAttempts();
+    return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+  }
+
+  static async isBiometricAvailable(): Promise<boolean> {
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch {
+      return false;
+    }
+  }
+
+  // PIN stays the fallback, so the system passcode prompt is not offered here
+  static async authenticateBiometric(reason: string): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: reason,
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+      return result.success;
+    } catch (error) {
+      log.warn('Biometric authentication failed:', error);
+      return false;
+    }
+  }
+
+  static subscribe(callback: (settings: AppLockSettings) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  private static async getAttempts(): Promise<AttemptState> {
+    try {
+      // Older versions kept this in AsyncStorage; a lockout running there still counts
+      const stored = (await SecureStorage.getItem(ATTEMPTS_KEY)) ?? (await AsyncStorage.getItem(ATTEMPTS_KEY));
+      return stored ? { ...NO_ATTEMPTS, ...JSON.parse(stored) } : NO_ATTEMPTS;
+    } catch {
+      return NO_ATTEMPTS;
+    }
+  }
+
+  private static async saveAttempts(attempts: AttemptState) {
+    await SecureStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+    await AsyncStorage.removeItem(ATTEMPTS_KEY);
+  }
+
+  private static async clearAttempts() {
+    await SecureStorage.removeItem(ATTEMPTS_KEY);
+    await AsyncStorage.removeItem(ATTEMPTS_KEY);
+  }
+
+  private static notifyListeners() {
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+}
@@ -1,23 +1,53 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { authAPI } from '../services/api';
+import { AlertReviews } from './alert-reviews';
+import { GeofenceStore } from './geofence';
+import { LocationHistory } from './location-history';
+import { createLogger, redactSecrets } from './logger';
+import { SyntheticAlerts } from './synthetic-alerts';
+
+const log = createLogger('AuthUtils');
+
+// Session token keys, e.g. @iotux_auth_token, also under their scoped or @secure: names
+const TOKEN_KEY_PATTERN = /(?:auth|refresh|access)_token/i;
+
+/**
+ * Drop what the phone keeps about the signed-in account's devices (tracks,
+ * safe zones, local alerts, alert reviews) so the next account doesn't see
+ * them. The offline cache goes with DeviceContext's reset.
+ */
+export const clearAccountData = async () => {
+  await Promise.all([
+    LocationHistory.clearAll(),
+    GeofenceStore.clear(),
+    SyntheticAlerts.clear(),
+    AlertReviews.clear(),
+  ]);
+};
 
 /**
  * Force clear all authentication data
  * Call this to reset the app to clean state
  */
 export const forceLogout = async () => {
-  console.log('🔴 Force logout - clearing all auth data');
+  log.info('🔴 Force logout - clearing all auth data');
   
   try {
+    // Tokens live in secure storage, outside AsyncStorage
+    await authAPI.logout();
+    // Also empties what's held in memory
+    await clearAccountData();
+
     // Clear all AsyncStorage
     const keys = await AsyncStorage.getAllKeys();
-    console.log('Found keys:', keys);
+    log.debug('Found keys:', keys);
     
     await AsyncStorage.multiRemove(keys);
-    console.log('✅ All storage cleared');
+    log.info('✅ All storage cleared');
     
     return true;
   } catch (error) {
-    console.error('❌ Error clearing storage:', error);
+    log.error('❌ Error clearing storage:', error);
     return false;
   }
 };
@@ -28,16 +58,21 @@ export const forceLogout = async () => {
 export const debugStorage = async () => {
   try {
     const keys = await AsyncStorage.getAllKeys();
-    console.log('📦 Storage keys:', keys);
+    log.debug('📦 Storage keys:', keys);
     
     const items = await AsyncStorage.multiGet(keys);
     items.forEach(([key, value]) => {
-      console.log(`  ${key}:`, value ? value.substring(0, 100) + '...' : 'null');
+      // A stored token is the bare value, with no field name for redactSecrets to spot
+      if (!value) {
+        log.debug(`  ${key}:`, 'null');
+        return;
+      }
+      log.debug(`  ${key}:`, TOKEN_KEY_PATTERN.test(key) ? '[redacted]' : redactSecrets(value).substring(0, 100) + '...');
     });
     
     return items;
   } catch (error) {
-    console.error('Error reading storage:', error);
+    log.error('Error reading storage:', error);
     return [];
   }
 };
@@ -1,6 +1,13 @@
 // Command Queue untuk offline command storage
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { deviceAPI } from '../services/api';
+import { CommandTracker } from './command-tracker';
+import { Environment } from './environment';
+import { presentLocalNotification } from './local-notifications';
+import { createLogger } from './logger';
+import { NetworkService } from './network-utils';
+
+const log = createLogger('CommandQueue');
 
 export interface QueuedCommand {
   id: string;
@@ -9,95 +16,289 @@ export interface QueuedCommand {
   value?: string;
   timestamp: number;
   retryCount: number;
-  status: 'pending' | 'sending' | 'failed' | 'success';
+  // expired/dropped are terminal and stay listed until the user dismisses them
+  status: 'pending' | 'sending' | 'failed' | 'success' | 'expired' | 'dropped';
+  lastError?: string;
+  // Sent as the Idempotency-Key header; the same for every retry
+  idempotencyKey: string;
+  nextAttemptAt: number;
+  expiresAt: number;
 }
 
 const QUEUE_KEY = '@command_queue';
-const MAX_RETRIES = 3;
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// A BUZZ going off an hour late is worse than no BUZZ at all
+const COMMAND_TTL_MS: Record<string, number> = {
+  BUZZ: 2 * 60 * 1000,
+  REQUEST_POSITION: 5 * 60 * 1000,
+  ARM: 15 * 60 * 1000,
+  DISARM: 15 * 60 * 1000,
+};
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+
+const TERMINAL_STATUSES: QueuedCommand['status'][] = ['expired', 'dropped'];
+
+export const isTerminalCommand = (cmd: QueuedCommand) => TERMINAL_STATUSES.includes(cmd.status);
+
+// RFC 4122 v4 layout; uniqueness is all the server needs from it
+const generateIdempotencyKey = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+
+const getBackoffMs = (retryCount: number) => {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(retryCount - 1, 0), MAX_BACKOFF_MS);
+  return delay + Math.random() * delay * 0.2;
+};
+
+// 4xx means the server understood and refused; retrying won't change its mind
+const isPermanentError = (error: any) => {
+  const status = error?.response?.status;
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
 
 export class CommandQueue {
   private static queue: QueuedCommand[] = [];
-  private static processing = false;
+  private static processing: Promise<void> | null = null;
+  private static listeners: ((queue: QueuedCommand[]) => void)[] = [];
+  private static initialized = false;
+  private static loading: Promise<void> | null = null;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   static async init() {
-    try {
-      const stored = await AsyncStorage.getItem(QUEUE_KEY);
-      if (stored) {
-        this.queue = JSON.parse(stored);
-        console.log(`📦 Loaded ${this.queue.length} queued commands`);
+    if (this.initialized) return;
+    this.initialized = true;
+
+    await this.load();
+
+    // Drain whatever piled up while offline as soon as we're back
+    NetworkService.subscribe((isConnected) => {
+      if (isConnected) {
+        this.processQueue();
       }
-    } catch (error) {
-      console.error('Failed to load command queue:', error);
+    });
+    // Queued commands carry that backend's device ids; never replay them elsewhere
+    Environment.subscribe(() => {
+      this.unload();
+      this.load().then(() => this.processQueue());
+    });
+    this.processQueue();
+  }
+
+  private static load(): Promise<void> {
+    this.loading = (async () => {
+      await Environment.init();
+      try {
+        const stored = await AsyncStorage.getItem(Environment.scopedKey(QUEUE_KEY));
+        if (stored) {
+          // A command caught mid-send when the app was killed goes out again;
+          // entries saved by older versions get the fields they're missing
+          this.queue = JSON.parse(stored).map((cmd: QueuedCommand) => ({
+            ...cmd,
+            status: cmd.status === 'sending' ? 'pending' : cmd.status,
+            idempotencyKey: cmd.idempotencyKey || generateIdempotencyKey(),
+            nextAttemptAt: cmd.nextAttemptAt ?? 0,
+            expiresAt: cmd.expiresAt ?? cmd.timestamp + (COMMAND_TTL_MS[cmd.command] ?? DEFAULT_TTL_MS),
+          }));
+          this.queue
+            .filter(cmd => !isTerminalCommand(cmd))
+            .forEach(cmd => CommandTracker.queued(cmd.id, cmd.deviceId, cmd.command));
+          log.info(`📦 Loaded ${this.queue.length} queued commands`);
+          this.notifyListeners();
+        }
+      } catch (error) {
+        log.error('Failed to load command queue:', error);
+      }
+    })();
+    return this.loading;
+  }
+
+  // Drops the in-memory queue of the previous backend; its storage is left alone
+  private static unload() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
     }
+    this.queue
+      .filter(cmd => !isTerminalCommand(cmd))
+      .forEach(cmd => CommandTracker.forget(cmd.id));
+    this.queue = [];
+    this.notifyListeners();
   }
 
   static async addCommand(deviceId: string, command: string, value?: string): Promise<string> {
+    // Saving before the stored queue is read would overwrite it
+    await this.loading;
+    const now = Date.now();
     const queuedCommand: QueuedCommand = {
-      id: `${Date.now()}-${Math.random()}`,
+      id: `${now}-${Math.random()}`,
       deviceId,
       command,
       value,
-      timestamp: Date.now(),
+      timestamp: now,
       retryCount: 0,
       status: 'pending',
+      idempotencyKey: generateIdempotencyKey(),
+      nextAttemptAt: now,
+      expiresAt: now + (COMMAND_TTL_MS[command] ?? DEFAULT_TTL_MS),
     };
 
     this.queue.push(queuedCommand);
+    CommandTracker.queued(queuedCommand.id, deviceId, command);
     await this.saveQueue();
-    
-    console.log(`✅ Command queued: ${command} for device ${deviceId}`);
-    
-    // Try to process immediately if online
-    this.processQueue();
-    
+
+    log.info(`✅ Command queued: ${command} for device ${deviceId}`);
+
+    // Try to process immediately if online; once this resolves the command
+    // is either delivered (gone from the queue) or still waiting in it
+    await this.processQueue();
+
     return queuedCommand.id;
   }
 
-  static async processQueue() {
-    if (this.processing || this.queue.length === 0) return;
+  static processQueue(): Promise<void> {
+    // Commands added while a run is in progress are picked up by that run
+    if (!this.processing) {
+      this.processing = this.runQueue().finally(() => {
+        this.processing = null;
+        this.scheduleRetry();
+      });
+    }
+    return this.processing;
+  }
 
-    this.processing = true;
+  private static async runQueue() {
+    const attempted = new Set<string>();
 
-    const pendingCommands = this.queue.filter(
-      cmd => cmd.status === 'pending' || cmd.status === 'failed'
-    );
+    while (true) {
+      await this.expireStale();
+      if (!NetworkService.getConnectionStatus()) break;
 
-    for (const cmd of pendingCommands) {
-      if (cmd.retryCount >= MAX_RETRIES) {
-        console.log(`❌ Command ${cmd.id} exceeded max retries, removing`);
-        this.queue = this.queue.filter(c => c.id !== cmd.id);
-        continue;
-      }
+      const now = Date.now();
+      const cmd = this.queue.find(
+        c =>
+          (c.status === 'pending' || c.status === 'failed') &&
+          c.nextAttemptAt <= now &&
+          !attempted.has(c.id)
+      );
+      if (!cmd) break;
+      attempted.add(cmd.id);
 
       try {
         cmd.status = 'sending';
         cmd.retryCount++;
         await this.saveQueue();
 
-        await deviceAPI.sendCommand(cmd.deviceId, cmd.command, cmd.value);
-        
-        console.log(`✅ Command ${cmd.command} sent successfully`);
-        
+        const response = await deviceAPI.sendCommand(cmd.deviceId, cmd.command, cmd.value, cmd.idempotencyKey);
+
+        log.info(`✅ Command ${cmd.command} sent successfully`);
+        // From here on the tracker follows it to the device
+        CommandTracker.sent(cmd.id, response);
+
         // Remove from queue on success
         this.queue = this.queue.filter(c => c.id !== cmd.id);
         await this.saveQueue();
-        
-      } catch (error) {
-        console.error(`Failed to send command ${cmd.id}:`, error);
-        cmd.status = 'failed';
-        await this.saveQueue();
+
+      } catch (error: any) {
+        log.error(`Failed to send command ${cmd.id}:`, error);
+        cmd.lastError = error?.response?.data?.detail || error?.message || 'Failed to send command';
+
+        if (isPermanentError(error)) {
+          await this.finish(cmd, 'dropped');
+        } else if (cmd.retryCount >= MAX_RETRIES) {
+          log.info(`❌ Command ${cmd.id} exceeded max retries`);
+          cmd.lastError = `Gave up after ${cmd.retryCount} attempts: ${cmd.lastError}`;
+          await this.finish(cmd, 'dropped');
+        } else {
+          cmd.status = 'failed';
+          cmd.nextAttemptAt = Date.now() + getBackoffMs(cmd.retryCount);
+          await this.saveQueue();
+        }
       }
     }
+  }
+
+  private static async expireStale() {
+    const now = Date.now();
+    const stale = this.queue.filter(
+      c => (c.status === 'pending' || c.status === 'failed') && c.expiresAt <= now
+    );
+    for (const cmd of stale) {
+      log.info(`⌛ Command ${cmd.command} for device ${cmd.deviceId} expired`);
+      await this.finish(cmd, 'expired');
+    }
+  }
+
+  // Terminal states are announced, never silently discarded
+  private static async finish(cmd: QueuedCommand, status: 'expired' | 'dropped') {
+    cmd.status = status;
+    CommandTracker.failed(cmd.id, status === 'expired' ? 'Expired before it could be sent' : cmd.lastError);
+    await this.saveQueue();
+
+    const title = status === 'expired'
+      ? `⌛ ${cmd.command} expired`
+      : `❌ ${cmd.command} could not be sent`;
+    const body = status === 'expired'
+      ? `${cmd.deviceId}: not delivered in time, so it was not sent.`
+      : `${cmd.deviceId}: ${cmd.lastError || 'the server rejected the command.'}`;
+    await presentLocalNotification(title, body, {
+      type: 'command_failed',
+      deviceId: cmd.deviceId,
+      commandId: cmd.id,
+    });
+  }
+
+  // Wake up for the earliest retry or expiry, whichever comes first
+  private static scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = this.queue.filter(c => c.status === 'pending' || c.status === 'failed');
+    if (waiting.length === 0) return;
+
+    const nextWakeUp = Math.min(...waiting.map(c => Math.min(c.nextAttemptAt, c.expiresAt)));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, Math.max(nextWakeUp - Date.now(), 0) + 50);
+  }
 
-    this.processing = false;
+  // Commands already on their way to the server can't be taken back;
+  // for expired/dropped ones this just dismisses them
+  static async cancelCommand(id: string): Promise<boolean> {
+    const cmd = this.queue.find(c => c.id === id);
+    if (!cmd || cmd.status === 'sending') return false;
 
-    // Save final state
+    this.queue = this.queue.filter(c => c.id !== id);
+    if (!isTerminalCommand(cmd)) {
+      CommandTracker.forget(id);
+    }
     await this.saveQueue();
+    log.info(`🗑️ Command ${cmd.command} for device ${cmd.deviceId} removed`);
+    return true;
   }
 
   static async clearQueue() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
     this.queue = [];
-    await AsyncStorage.removeItem(QUEUE_KEY);
+    await AsyncStorage.removeItem(Environment.scopedKey(QUEUE_KEY));
+    this.notifyListeners();
+  }
+
+  static subscribe(callback: (queue: QueuedCommand[]) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
   }
 
   static getPendingCount(): number {
@@ -110,11 +311,26 @@ export class CommandQueue {
     return [...this.queue];
   }
 
+  static getCommand(id: string): QueuedCommand | undefined {
+    const cmd = this.queue.find(c => c.id === id);
+    return cmd ? { ...cmd } : undefined;
+  }
+
+  static getCommandsForDevice(deviceId: string): QueuedCommand[] {
+    return this.queue.filter(cmd => cmd.deviceId === deviceId).map(cmd => ({ ...cmd }));
+  }
+
+  private static notifyListeners() {
+    const snapshot = this.queue.map(cmd => ({ ...cmd }));
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
   private static async saveQueue() {
+    this.notifyListeners();
     try {
-      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+      await AsyncStorage.setItem(Environment.scopedKey(QUEUE_KEY), JSON.stringify(this.queue));
     } catch (error) {
-      console.error('Failed to save command queue:', error);
+      log.error('Failed to save command queue:', error);
     }
   }
 }
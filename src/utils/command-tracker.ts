@@ -0,0 +1,261 @@
+// Tracking status command dari queue sampai dieksekusi oleh device
+import { deviceAPI, DeviceCurrentStatus } from '../services/api';
+import { DEVICE_COMMANDS } from './device-commands';
+import { isValidCoordinate } from './location-history';
+import { createLogger } from './logger';
+
+const log = createLogger('CommandTracker');
+
+/**
+ * queued -> sent (server accepted) -> delivered (device picked it up)
+ *        -> executed | failed | timeout
+ */
+export type CommandStage = 'queued' | 'sent' | 'delivered' | 'executed' | 'failed' | 'timeout';
+
+export interface TrackedCommand {
+  // Same id as the CommandQueue entry
+  id: string;
+  deviceId: string;
+  command: string;
+  stage: CommandStage;
+  detail?: string;
+  queuedAt: number;
+  updatedAt: number;
+  sentAt?: number;
+  // Present when the server hands out ids for its command-status endpoint
+  serverCommandId?: string;
+  // Followed as far as it can be without reaching a final stage
+  settled?: boolean;
+}
+
+interface Correlation {
+  // Device check-in time when the command reached the server
+  baselineSeenAt: number;
+}
+
+const ACK_TIMEOUT_MS = 90 * 1000;
+const STATUS_POLL_INTERVAL_MS = 3000;
+// Finished entries linger this long so the UI can show how they ended
+const FINISHED_RETENTION_MS = 10 * 60 * 1000;
+
+const FINAL_STAGES: CommandStage[] = ['executed', 'failed', 'timeout'];
+
+export const isFinalStage = (stage: CommandStage) => FINAL_STAGES.includes(stage);
+
+const isDone = (cmd: TrackedCommand) => isFinalStage(cmd.stage) || !!cmd.settled;
+
+// Lifecycle order; final stages share the last rank
+const STAGE_RANK: Record<CommandStage, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  executed: 3,
+  failed: 3,
+  timeout: 3,
+};
+
+const isLaterStage = (stage: CommandStage, current: CommandStage) => STAGE_RANK[stage] > STAGE_RANK[current];
+
+// How a status report proves the command took effect, when the server can't tell us
+const EXECUTION_CHECKS: Record<string, (status: DeviceCurrentStatus) => boolean> = {
+  ARM: (status) => status.armed_state === 'armed',
+  DISARM: (status) => status.armed_state === 'disarmed',
+  BUZZ: (status) => !!status.last_status?.toUpperCase().includes('BUZZ'),
+  REQUEST_POSITION: (status) => isValidCoordinate(status.lat, status.lon),
+};
+
+// Status reports don't include the device's settings, so for these a check-in
+// after sending is the last thing we can see; waiting longer only times out
+const UNCONFIRMABLE_COMMANDS = new Set<string>(DEVICE_COMMANDS.map((definition) => definition.command));
+
+// Server command-status values mapped onto our stages
+const SERVER_STAGES: Record<string, CommandStage> = {
+  pending: 'sent',
+  queued: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  executed: 'executed',
+  done: 'executed',
+  failed: 'failed',
+  rejected: 'failed',
+};
+
+const toTime = (value: string | null | undefined) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+export class CommandTracker {
+  private static commands = new Map<string, TrackedCommand>();
+  private static correlations = new Map<string, Correlation>();
+  private static lastStatus = new Map<string, DeviceCurrentStatus>();
+  private static timers = new Map<string, ReturnType<typeof setTimeout>[]>();
+  private static listeners: ((commands: TrackedCommand[]) => void)[] = [];
+
+  static queued(id: string, deviceId: string, command: string) {
+    const now = Date.now();
+    this.commands.set(id, { id, deviceId, command, stage: 'queued', queuedAt: now, updatedAt: now });
+    this.prune();
+    this.notifyListeners();
+  }
+
+  /**
+   * The server accepted the command. `response` is whatever /api/send
+   * returned; a `command_id` in it lets us ask the server for progress,
+   * otherwise we watch the device's status reports.
+   */
+  static sent(id: string, response: any) {
+    const tracked = this.commands.get(id);
+    if (!tracked) return;
+
+    const serverCommandId = response?.command_id;
+    this.update(id, {
+      stage: 'sent',
+      sentAt: Date.now(),
+      serverCommandId: serverCommandId != null ? String(serverCommandId) : undefined,
+    });
+
+    if (serverCommandId != null) {
+      this.pollServer(id);
+    } else {
+      this.startCorrelation(id);
+    }
+    this.addTimer(id, setTimeout(() => this.timeOut(id), ACK_TIMEOUT_MS));
+  }
+
+  static failed(id: string, detail?: string) {
+    if (!this.commands.has(id)) return;
+    this.update(id, { stage: 'failed', detail });
+  }
+
+  // Cancelled before it was sent; nothing left to show
+  static forget(id: string) {
+    this.clearTimers(id);
+    this.correlations.delete(id);
+    if (this.commands.delete(id)) {
+      this.notifyListeners();
+    }
+  }
+
+  // Every status report from the store goes through here
+  static observeStatus(status: DeviceCurrentStatus) {
+    this.lastStatus.set(status.device_id, status);
+
+    this.correlations.forEach((correlation, id) => {
+      const tracked = this.commands.get(id);
+      if (!tracked || tracked.deviceId !== status.device_id) return;
+
+      // A check-in after the command reached the server means the device has seen it
+      const checkedIn = toTime(status.last_seen) > correlation.baselineSeenAt;
+      if (!checkedIn) return;
+
+      const check = EXECUTION_CHECKS[tracked.command];
+      if (check?.(status)) {
+        this.update(id, { stage: 'executed' });
+      } else if (UNCONFIRMABLE_COMMANDS.has(tracked.command)) {
+        this.update(id, { stage: 'delivered', settled: true, detail: "The device doesn't report its settings back" });
+      } else if (tracked.stage === 'sent') {
+        this.update(id, { stage: 'delivered' });
+      }
+    });
+  }
+
+  static getForDevice(deviceId: string): TrackedCommand[] {
+    return [...this.commands.values()]
+      .filter((cmd) => cmd.deviceId === deviceId)
+      .sort((a, b) => b.queuedAt - a.queuedAt)
+      .map((cmd) => ({ ...cmd }));
+  }
+
+  static subscribe(callback: (commands: TrackedCommand[]) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private static startCorrelation(id: string) {
+    const tracked = this.commands.get(id)!;
+    const baseline = this.lastStatus.get(tracked.deviceId);
+    // Without an earlier report, only check-ins after the send count
+    this.correlations.set(id, {
+      baselineSeenAt: baseline ? toTime(baseline.last_seen) : tracked.sentAt ?? Date.now(),
+    });
+  }
+
+  private static pollServer(id: string) {
+    const poll = async () => {
+      const tracked = this.commands.get(id);
+      if (!tracked || isDone(tracked) || !tracked.serverCommandId) return;
+
+      try {
+        const result = await deviceAPI.getCommandStatus(tracked.deviceId, tracked.serverCommandId);
+        const stage = SERVER_STAGES[String(result?.status).toLowerCase()];
+        // Polls can answer out of order; a late "pending" mustn't undo "delivered"
+        if (stage && isLaterStage(stage, tracked.stage)) {
+          this.update(id, { stage, detail: result.detail ?? undefined });
+        }
+      } catch (error: any) {
+        if (error?.response?.status === 404) {
+          // Server has no command-status endpoint after all
+          this.startCorrelation(id);
+          return;
+        }
+        log.warn(`Command status poll failed for ${id}:`, error);
+      }
+
+      if (!isFinalStage(this.commands.get(id)?.stage ?? 'failed')) {
+        this.addTimer(id, setTimeout(poll, STATUS_POLL_INTERVAL_MS));
+      }
+    };
+    this.addTimer(id, setTimeout(poll, STATUS_POLL_INTERVAL_MS));
+  }
+
+  private static timeOut(id: string) {
+    const tracked = this.commands.get(id);
+    if (!tracked || isDone(tracked)) return;
+
+    this.update(id, {
+      stage: 'timeout',
+      detail: tracked.stage === 'delivered'
+        ? 'The device checked in but never confirmed the command'
+        : 'No response from the device',
+    });
+  }
+
+  private static update(id: string, changes: Partial<TrackedCommand>) {
+    const tracked = this.commands.get(id);
+    if (!tracked) return;
+
+    const next = { ...tracked, ...changes, updatedAt: Date.now() };
+    this.commands.set(id, next);
+    if (isDone(next)) {
+      this.clearTimers(id);
+      this.correlations.delete(id);
+    }
+    this.notifyListeners();
+  }
+
+  private static addTimer(id: string, timer: ReturnType<typeof setTimeout>) {
+    this.timers.set(id, [...(this.timers.get(id) || []), timer]);
+  }
+
+  private static clearTimers(id: string) {
+    this.timers.get(id)?.forEach(clearTimeout);
+    this.timers.delete(id);
+  }
+
+  private static prune() {
+    const cutoff = Date.now() - FINISHED_RETENTION_MS;
+    this.commands.forEach((cmd, id) => {
+      if (isDone(cmd) && cmd.updatedAt < cutoff) {
+        this.commands.delete(id);
+      }
+    });
+  }
+
+  private static notifyListeners() {
+    const snapshot = [...this.commands.values()].map((cmd) => ({ ...cmd }));
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
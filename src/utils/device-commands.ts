@@ -0,0 +1,115 @@
+// Katalog command konfigurasi device: parameter, validasi dan konfirmasi, dikirim lewat CommandQueue
+
+export type DeviceCommandName =
+  | 'SET_REPORT_INTERVAL'
+  | 'SET_BUZZER_DURATION'
+  | 'SET_MOTION_SENSITIVITY'
+  | 'SET_GPS_MODE';
+
+export interface NumberParam {
+  type: 'number';
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  defaultValue: number;
+}
+
+export interface ChoiceParam {
+  type: 'choice';
+  label: string;
+  options: { value: string; label: string }[];
+  defaultValue: string;
+}
+
+export type CommandParam = NumberParam | ChoiceParam;
+
+export interface DeviceCommandDefinition {
+  command: DeviceCommandName;
+  title: string;
+  description: string;
+  // The API carries one value per command, so one parameter each
+  param: CommandParam;
+  // Asked before sending; null when the value needs no confirmation
+  confirm?: (value: string) => string | null;
+}
+
+export const DEVICE_COMMANDS: DeviceCommandDefinition[] = [
+  {
+    command: 'SET_REPORT_INTERVAL',
+    title: 'Reporting Interval',
+    description: 'How often the tracker sends its position while moving.',
+    param: { type: 'number', label: 'Interval', unit: 's', min: 10, max: 3600, defaultValue: 60 },
+    confirm: (value) =>
+      Number(value) < 30 ? 'Reporting this often drains the tracker battery much faster. Continue?' : null,
+  },
+  {
+    command: 'SET_BUZZER_DURATION',
+    title: 'Buzzer Duration',
+    description: 'How long the buzzer sounds for Buzz Alarm and alerts.',
+    param: { type: 'number', label: 'Duration', unit: 's', min: 1, max: 60, defaultValue: 10 },
+  },
+  {
+    command: 'SET_MOTION_SENSITIVITY',
+    title: 'Movement Sensitivity',
+    description: 'How much movement it takes to raise an alert while armed.',
+    param: {
+      type: 'choice',
+      label: 'Sensitivity',
+      options: [
+        { value: 'low', label: 'Low' },
+        { value: 'medium', label: 'Medium' },
+        { value: 'high', label: 'High' },
+      ],
+      defaultValue: 'medium',
+    },
+    confirm: (value) =>
+      value === 'low' ? 'Low sensitivity can miss a vehicle being pushed away. Continue?' : null,
+  },
+  {
+    command: 'SET_GPS_MODE',
+    title: 'GPS Power Mode',
+    description: 'Trades position accuracy for battery life.',
+    param: {
+      type: 'choice',
+      label: 'Mode',
+      options: [
+        { value: 'high_accuracy', label: 'High Accuracy' },
+        { value: 'balanced', label: 'Balanced' },
+        { value: 'power_saving', label: 'Power Saving' },
+      ],
+      defaultValue: 'balanced',
+    },
+    confirm: (value) =>
+      value === 'power_saving'
+        ? 'In power saving mode positions can be minutes old, including during a theft alert. Continue?'
+        : null,
+  },
+];
+
+export const getCommandDefinition = (command: string): DeviceCommandDefinition | undefined =>
+  DEVICE_COMMANDS.find((definition) => definition.command === command);
+
+// Null when the value can be sent, otherwise what's wrong with it
+export const validateCommandValue = (definition: DeviceCommandDefinition, value: string): string | null => {
+  const { param } = definition;
+  if (param.type === 'choice') {
+    return param.options.some((option) => option.value === value) ? null : `Please choose a ${param.label.toLowerCase()}`;
+  }
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return `${param.label} must be a whole number`;
+  const number = Number(trimmed);
+  if (number < param.min || number > param.max) {
+    return `${param.label} must be between ${param.min} and ${param.max} ${param.unit}`;
+  }
+  return null;
+};
+
+// For status lines and the pending list, e.g. "60 s" or "Balanced"
+export const formatCommandValue = (command: string, value: string | undefined): string | undefined => {
+  const param = getCommandDefinition(command)?.param;
+  if (!param || value == null) return value;
+  return param.type === 'number'
+    ? `${value} ${param.unit}`
+    : param.options.find((option) => option.value === value)?.label ?? value;
+};
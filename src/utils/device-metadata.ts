@@ -0,0 +1,139 @@
+// Detail device (nama, kendaraan, plat, warna, foto, ikon marker): ke server kalau didukung, kalau tidak disimpan lokal
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Device, deviceAPI, DeviceProfile, VehicleType } from '../services/api';
+import { Environment } from './environment';
+import { createLogger } from './logger';
+
+const log = createLogger('DeviceMetadata');
+
+const DEVICE_METADATA_KEY = '@device_metadata';
+
+export type DeviceOverlay = Partial<DeviceProfile>;
+
+export const DEVICE_ICONS = ['🛵', '🏍️', '🚗', '🚲', '🛺', '🚚', '🚤', '📦'];
+export const DEFAULT_DEVICE_ICON = DEVICE_ICONS[0];
+
+export const VEHICLE_TYPES: { id: VehicleType; label: string; icon: string }[] = [
+  { id: 'scooter', label: 'Scooter', icon: '🛵' },
+  { id: 'motorcycle', label: 'Motorcycle', icon: '🏍️' },
+  { id: 'car', label: 'Car', icon: '🚗' },
+  { id: 'bicycle', label: 'Bicycle', icon: '🚲' },
+  { id: 'truck', label: 'Truck', icon: '🚚' },
+  { id: 'other', label: 'Other', icon: '📦' },
+];
+
+export const VEHICLE_COLORS: { label: string; hex: string }[] = [
+  { label: 'Black', hex: '#111827' },
+  { label: 'White', hex: '#F9FAFB' },
+  { label: 'Silver', hex: '#9CA3AF' },
+  { label: 'Red', hex: '#DC2626' },
+  { label: 'Blue', hex: '#2563EB' },
+  { label: 'Green', hex: '#16A34A' },
+  { label: 'Yellow', hex: '#FACC15' },
+  { label: 'Orange', hex: '#EA580C' },
+];
+
+// Local edits win over what the server sent; the server only lacks them when it can't store them
+export const applyDeviceOverlay = (device: Device, overlay: DeviceOverlay | undefined): Device =>
+  overlay ? { ...device, ...overlay, name: overlay.name || device.name } : device;
+
+// marker_icon comes from the server and ends up in map HTML, so only the picker's icons count
+export const isDeviceIcon = (icon: string | null | undefined): icon is string =>
+  !!icon && DEVICE_ICONS.includes(icon);
+
+// Marker icon, falling back to the vehicle type's
+export const getDeviceIcon = (device: Partial<Device> | null | undefined): string =>
+  (isDeviceIcon(device?.marker_icon) ? device.marker_icon : null)
+  || VEHICLE_TYPES.find((type) => type.id === device?.vehicle_type)?.icon
+  || DEFAULT_DEVICE_ICON;
+
+export class DeviceMetadata {
+  private static overlays: Record<string, DeviceOverlay> = {};
+  private static loading: Promise<Record<string, DeviceOverlay>> | null = null;
+  private static listeners: ((overlays: Record<string, DeviceOverlay>) => void)[] = [];
+  private static unsubscribeEnvironment: (() => void) | null = null;
+
+  static load(): Promise<Record<string, DeviceOverlay>> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        await Environment.init();
+        try {
+          const stored = await AsyncStorage.getItem(Environment.scopedKey(DEVICE_METADATA_KEY));
+          this.overlays = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+          log.error('Failed to load device metadata:', error);
+        }
+        if (!this.unsubscribeEnvironment) {
+          // Device ids are per backend, so are their details
+          this.unsubscribeEnvironment = Environment.subscribe(() => {
+            this.overlays = {};
+            this.loading = null;
+            this.load();
+          });
+        }
+        this.notifyListeners();
+        return this.overlays;
+      })();
+    }
+    return this.loading;
+  }
+
+  static getAll(): Record<string, DeviceOverlay> {
+    return this.overlays;
+  }
+
+  /**
+   * Saves device details to the server when it supports them, otherwise
+   * keeps them on the phone. Request errors are thrown so the caller can
+   * say so; nothing is stored in that case. Resolves to whether the server
+   * has them.
+   */
+  static async save(deviceId: string, changes: DeviceOverlay, photoUri?: string | null): Promise<boolean> {
+    await this.load();
+    const overlay: DeviceOverlay = { ...this.overlays[deviceId] };
+    const local: DeviceOverlay = {};
+
+    if (photoUri) {
+      const photoUrl = await deviceAPI.uploadDevicePhoto(deviceId, photoUri);
+      if (photoUrl) {
+        delete overlay.photo_url;
+      } else {
+        // The picked file itself is the photo
+        local.photo_url = photoUri;
+      }
+    }
+
+    const updated = Object.keys(changes).length > 0 ? await deviceAPI.updateDevice(deviceId, changes) : null;
+    if (updated) {
+      // The server has these now; drop the local copies so its values show
+      (Object.keys(changes) as (keyof DeviceOverlay)[]).forEach((key) => delete overlay[key]);
+    } else {
+      Object.assign(local, changes);
+    }
+    await this.replace(deviceId, { ...overlay, ...local });
+    return !!updated;
+  }
+
+  static subscribe(callback: (overlays: Record<string, DeviceOverlay>) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private static async replace(deviceId: string, overlay: DeviceOverlay) {
+    const overlays = { ...this.overlays };
+    delete overlays[deviceId];
+    this.overlays = Object.keys(overlay).length > 0 ? { ...overlays, [deviceId]: overlay } : overlays;
+    try {
+      await AsyncStorage.setItem(Environment.scopedKey(DEVICE_METADATA_KEY), JSON.stringify(this.overlays));
+    } catch (error) {
+      log.error('Failed to save device metadata:', error);
+    }
+    this.notifyListeners();
+  }
+
+  private static notifyListeners() {
+    this.listeners.forEach((listener) => listener(this.overlays));
+  }
+}
@@ -0,0 +1,62 @@
+// Baca label tracker (QR / barcode) dan validasi format device ID sebelum register
+import * as Linking from 'expo-linking';
+
+export interface DevicePairing {
+  deviceId: string;
+  // Printed on the label so only someone holding the tracker can claim it
+  secret?: string;
+}
+
+// e.g. MOTOR-ABC123: letters/digits in dash-separated groups
+const DEVICE_ID_PATTERN = /^[A-Z0-9]+(?:[-_][A-Z0-9]+)*$/i;
+const DEVICE_ID_MIN_LENGTH = 4;
+const DEVICE_ID_MAX_LENGTH = 64;
+
+const cleanId = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const cleanSecret = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// Null when the ID looks fine, otherwise what's wrong with it
+export const validateDeviceId = (deviceId: string): string | null => {
+  const id = deviceId.trim();
+  if (!id) return 'Please enter the device ID';
+  if (id.length < DEVICE_ID_MIN_LENGTH || id.length > DEVICE_ID_MAX_LENGTH) {
+    return `Device ID must be ${DEVICE_ID_MIN_LENGTH}-${DEVICE_ID_MAX_LENGTH} characters`;
+  }
+  if (!DEVICE_ID_PATTERN.test(id)) {
+    return 'Device ID can only contain letters, digits and dashes, e.g. MOTOR-ABC123';
+  }
+  return null;
+};
+
+/**
+ * Reads whatever the label encodes. Labels have been printed as a pairing
+ * link (iotux://pair?id=...&secret=... or the https equivalent), as JSON,
+ * as "ID;SECRET" and, on barcodes, as the bare ID. Null when it isn't one
+ * of ours.
+ */
+export const parseDeviceLabel = (data: string): DevicePairing | null => {
+  const raw = data.trim();
+  if (!raw) return null;
+
+  let pairing: DevicePairing;
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(raw)) {
+    // RN's URL can't read query params, expo-linking can
+    const { queryParams } = Linking.parse(raw);
+    pairing = {
+      deviceId: cleanId(queryParams?.id ?? queryParams?.device_id),
+      secret: cleanSecret(queryParams?.secret),
+    };
+  } else if (raw.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(raw);
+      pairing = { deviceId: cleanId(parsed.id ?? parsed.device_id), secret: cleanSecret(parsed.secret) };
+    } catch {
+      return null;
+    }
+  } else {
+    const [id, secret] = raw.split(';');
+    pairing = { deviceId: cleanId(id), secret: cleanSecret(secret) };
+  }
+
+  return pairing.deviceId && !validateDeviceId(pairing.deviceId) ? pairing : null;
+};
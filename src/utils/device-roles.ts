@@ -0,0 +1,26 @@
+// Peran user terhadap device (owner / operator / viewer) dan apa yang boleh dilakukan
+import { Device, DeviceRole, DeviceShare } from '../services/api';
+
+export const DEVICE_ROLE_LABELS: Record<DeviceRole, string> = {
+  owner: 'Owner',
+  operator: 'Can arm/disarm',
+  viewer: 'View only',
+};
+
+// Roles an owner can hand out; ownership itself isn't transferable from the app
+export const SHARE_ROLES: DeviceShare['role'][] = ['operator', 'viewer'];
+
+export interface DevicePermissions {
+  // Arm/disarm, buzz, request position
+  canControl: boolean;
+  // Share, revoke, remove from the account
+  canManage: boolean;
+}
+
+// Without a role the server predates sharing and every listed device is yours
+export const getDeviceRole = (device: Device | null | undefined): DeviceRole => device?.role ?? 'owner';
+
+export const getDevicePermissions = (role: DeviceRole): DevicePermissions => ({
+  canControl: role !== 'viewer',
+  canManage: role === 'owner',
+});
@@ -0,0 +1,146 @@
+// Diagnostics untuk support: status API, sesi, queue, jaringan dan cache
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import axios from 'axios';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { getPushRegistrationState, PushRegistrationState } from '../hooks/usePushNotifications';
+import { authAPI, SessionInfo } from '../services/api';
+import { CommandQueue, QueuedCommand } from './command-queue';
+import { Environment, EnvironmentId } from './environment';
+import { LogEntry, Logger, redactSecrets } from './logger';
+import { NetworkService } from './network-utils';
+
+export interface ApiCheck {
+  reachable: boolean;
+  latencyMs: number | null;
+  status: number | null;
+  error?: string;
+}
+
+export type TokenCheck = 'valid' | 'rejected' | 'missing' | 'unverified';
+
+export interface StorageGroup {
+  name: string;
+  keys: number;
+  bytes: number;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  app: { platform: string; version: string; dev: boolean };
+  api: ApiCheck & { baseUrl: string; environment: EnvironmentId };
+  session: SessionInfo & { token: TokenCheck };
+  push: PushRegistrationState;
+  network: { connected: boolean; type: string; internetReachable: boolean | null };
+  commandQueue: QueuedCommand[];
+  storage: StorageGroup[];
+  logs: LogEntry[];
+}
+
+const PING_TIMEOUT_MS = 8000;
+const REPORT_LOG_LINES = 200;
+
+// AsyncStorage key prefixes, most specific first
+const STORAGE_GROUPS: [string, string][] = [
+  ['@offline_cache', 'Offline cache'],
+  ['@location_history_', 'Location history'],
+  ['@command_queue', 'Command queue'],
+  ['@geofence', 'Geofences'],
+  ['@synthetic_alerts', 'Local alerts'],
+  ['@alert_reviews', 'Alert reviews'],
+  ['@device_metadata', 'Device details'],
+  ['@secure:', 'Encrypted secrets'],
+  ['@iotux_', 'Session and settings'],
+];
+
+export class Diagnostics {
+  // Secret switch for non-dev builds; lasts until the app restarts
+  private static unlocked = false;
+
+  static isEnabled(): boolean {
+    return __DEV__ || process.env.EXPO_PUBLIC_ENABLE_DIAGNOSTICS === 'true' || this.unlocked;
+  }
+
+  static unlock() {
+    this.unlocked = true;
+  }
+
+  // Any HTTP answer counts as reachable; only network failures don't
+  static async pingApi(): Promise<ApiCheck> {
+    const startedAt = Date.now();
+    try {
+      const response = await axios.get(`${Environment.getBaseUrl()}/api/capabilities`, {
+        timeout: PING_TIMEOUT_MS,
+        validateStatus: () => true,
+      });
+      return { reachable: true, latencyMs: Date.now() - startedAt, status: response.status };
+    } catch (error: any) {
+      return { reachable: false, latencyMs: null, status: null, error: error?.message };
+    }
+  }
+
+  static async checkToken(hasToken: boolean): Promise<TokenCheck> {
+    if (!hasToken) return 'missing';
+    try {
+      // Read-only on purpose: a refused token must not log the user out mid-diagnosis
+      await authAPI.checkSession();
+      return 'valid';
+    } catch (error: any) {
+      return error?.response?.status === 401 ? 'rejected' : 'unverified';
+    }
+  }
+
+  static async getStorageUsage(): Promise<StorageGroup[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    const items = await AsyncStorage.multiGet(keys);
+    const groups = new Map<string, StorageGroup>();
+
+    items.forEach(([key, value]) => {
+      const name = STORAGE_GROUPS.find(([prefix]) => key.startsWith(prefix))?.[1] ?? 'Other';
+      const group = groups.get(name) ?? { name, keys: 0, bytes: 0 };
+      group.keys += 1;
+      // JS strings are UTF-16, which is roughly what the storage backends keep
+      group.bytes += (key.length + (value?.length ?? 0)) * 2;
+      groups.set(name, group);
+    });
+
+    return [...groups.values()].sort((a, b) => b.bytes - a.bytes);
+  }
+
+  static async collect(): Promise<DiagnosticsReport> {
+    const [api, sessionInfo, netState, storage] = await Promise.all([
+      this.pingApi(),
+      authAPI.getSessionInfo(),
+      NetInfo.fetch(),
+      this.getStorageUsage(),
+    ]);
+    // Only worth asking the server when it answered the ping
+    const token = api.reachable
+      ? await this.checkToken(sessionInfo.hasToken)
+      : sessionInfo.hasToken ? 'unverified' : 'missing';
+
+    return {
+      generatedAt: new Date().toISOString(),
+      app: { platform: Platform.OS, version: Constants.expoConfig?.version ?? '1.0.0', dev: __DEV__ },
+      api: { ...api, baseUrl: Environment.getBaseUrl(), environment: Environment.get().id },
+      session: { ...sessionInfo, token },
+      push: getPushRegistrationState(),
+      network: {
+        connected: NetworkService.getConnectionStatus(),
+        type: netState.type,
+        internetReachable: netState.isInternetReachable,
+      },
+      commandQueue: CommandQueue.getQueuedCommands(),
+      storage,
+      logs: Logger.getEntries().slice(-REPORT_LOG_LINES),
+    };
+  }
+
+  static toJSON(report: DiagnosticsReport): string {
+    return redactSecrets(JSON.stringify(report, null, 2));
+  }
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
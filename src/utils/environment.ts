@@ -0,0 +1,122 @@
+// Pilihan backend environment: production, staging atau URL custom
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from '../constants/theme';
+import { createLogger } from './logger';
+
+const log = createLogger('Environment');
+
+export type EnvironmentId = 'production' | 'staging' | 'custom';
+
+export interface BackendEnvironment {
+  id: EnvironmentId;
+  label: string;
+  baseUrl: string;
+}
+
+const ENVIRONMENT_KEY = '@iotux_environment';
+
+const PRESETS: Record<Exclude<EnvironmentId, 'custom'>, BackendEnvironment> = {
+  production: { id: 'production', label: 'Production', baseUrl: API_BASE_URL },
+  staging: {
+    id: 'staging',
+    label: 'Staging',
+    baseUrl: process.env.EXPO_PUBLIC_STAGING_API_URL || 'https://staging.iot.fyuko.app',
+  },
+};
+
+// "http://192.168.1.10:8000/" -> "http://192.168.1.10:8000"
+export const normalizeBaseUrl = (url: string): string | null => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+// Storage-key safe and reversible, so "a.b:8000" and "a_b:8000" never share a
+// slot: "_" plus the 4-digit UTF-16 code for everything but letters and digits
+const encodeScope = (text: string) =>
+  text.replace(/[^A-Za-z0-9]/g, (c) => `_${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+export class Environment {
+  private static current: BackendEnvironment = PRESETS.production;
+  private static loading: Promise<BackendEnvironment> | null = null;
+  private static listeners: ((env: BackendEnvironment) => void)[] = [];
+
+  // Loads the saved choice once; everything that talks to the server waits for it
+  static init(): Promise<BackendEnvironment> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(ENVIRONMENT_KEY);
+          if (stored) {
+            const saved: BackendEnvironment = JSON.parse(stored);
+            if (saved.id === 'custom') {
+              const baseUrl = normalizeBaseUrl(saved.baseUrl);
+              if (baseUrl) this.current = { id: 'custom', label: 'Custom', baseUrl };
+            } else if (PRESETS[saved.id]) {
+              this.current = PRESETS[saved.id];
+            }
+          }
+        } catch (error) {
+          log.error('Failed to load backend environment:', error);
+        }
+        return this.current;
+      })();
+    }
+    return this.loading;
+  }
+
+  static get(): BackendEnvironment {
+    return this.current;
+  }
+
+  static getBaseUrl(): string {
+    return this.current.baseUrl;
+  }
+
+  static isProduction(): boolean {
+    return this.current.id === 'production';
+  }
+
+  static getPresets(): BackendEnvironment[] {
+    return Object.values(PRESETS);
+  }
+
+  /**
+   * Storage key for per-environment data such as auth tokens. Production
+   * keeps the original key so existing sessions carry over.
+   */
+  static scopedKey(key: string): string {
+    if (this.isProduction()) return key;
+    // Each custom host gets its own slot so tokens never go to the wrong server
+    const scope = this.current.id === 'custom'
+      ? `custom_${encodeScope(this.current.baseUrl.replace(/^https?:\/\//i, ''))}`
+      : this.current.id;
+    return `${key}_${scope}`;
+  }
+
+  static async select(id: EnvironmentId, customUrl?: string): Promise<BackendEnvironment> {
+    let next: BackendEnvironment;
+    if (id === 'custom') {
+      const baseUrl = normalizeBaseUrl(customUrl ?? '');
+      if (!baseUrl) {
+        throw new Error('Enter a full http:// or https:// URL');
+      }
+      next = { id: 'custom', label: 'Custom', baseUrl };
+    } else {
+      next = PRESETS[id];
+    }
+
+    await this.init();
+    this.current = next;
+    await AsyncStorage.setItem(ENVIRONMENT_KEY, JSON.stringify(next));
+    log.info(`🌐 Switched backend to ${next.label} (${next.baseUrl})`);
+    this.listeners.forEach(listener => listener(next));
+    return next;
+  }
+
+  static subscribe(callback: (env: BackendEnvironment) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+}
@@ -0,0 +1,219 @@
+// Geofence (safe zone) storage dan breach detection lokal
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Environment } from './environment';
+import { isValidCoordinate, LatLng } from './location-history';
+import { presentLocalNotification } from './local-notifications';
+import { createLogger } from './logger';
+import { ALERT_CATEGORY } from './notification-actions';
+import { SyntheticAlerts } from './synthetic-alerts';
+
+const log = createLogger('Geofence');
+
+export type GeofenceShape =
+  | { type: 'circle'; center: LatLng; radius: number }
+  | { type: 'polygon'; points: LatLng[] };
+
+export type Geofence = GeofenceShape & {
+  id: string;
+  deviceId: string;
+  name: string;
+  createdAt: number;
+};
+
+const GEOFENCES_KEY = '@geofences';
+const GEOFENCE_STATE_KEY = '@geofence_state';
+const EARTH_RADIUS_M = 6371000;
+
+export const GEOFENCE_EXIT_STATUS = 'GEOFENCE_EXIT';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting; fine for zones the size of a parking garage or a city block
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+export function isInsideGeofence(point: LatLng, shape: GeofenceShape): boolean {
+  if (shape.type === 'circle') {
+    return distanceMeters(point, shape.center) <= shape.radius;
+  }
+  return shape.points.length >= 3 && isPointInPolygon(point, shape.points);
+}
+
+// Zones and their state belong to the devices of one backend
+const storageKey = async (key: string) => {
+  await Environment.init();
+  return Environment.scopedKey(key);
+};
+
+export class GeofenceStore {
+  private static geofences: Geofence[] | null = null;
+  private static unsubscribeEnvironment: (() => void) | null = null;
+
+  static async getAll(): Promise<Geofence[]> {
+    if (this.geofences) return [...this.geofences];
+
+    if (!this.unsubscribeEnvironment) {
+      this.unsubscribeEnvironment = Environment.subscribe(() => {
+        this.geofences = null;
+        GeofenceMonitor.unload();
+      });
+    }
+    try {
+      const stored = await AsyncStorage.getItem(await storageKey(GEOFENCES_KEY));
+      this.geofences = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Failed to load geofences:', error);
+      this.geofences = [];
+    }
+    return [...this.geofences!];
+  }
+
+  static async getForDevice(deviceId: string): Promise<Geofence[]> {
+    const geofences = await this.getAll();
+    return geofences.filter((fence) => fence.deviceId === deviceId);
+  }
+
+  static async add(deviceId: string, name: string, shape: GeofenceShape): Promise<Geofence> {
+    const geofences = await this.getAll();
+    const geofence: Geofence = {
+      ...shape,
+      id: `${Date.now()}-${Math.random()}`,
+      deviceId,
+      name,
+      createdAt: Date.now(),
+    };
+    this.geofences = [...geofences, geofence];
+    await this.save();
+    return geofence;
+  }
+
+  static async remove(id: string) {
+    const geofences = await this.getAll();
+    this.geofences = geofences.filter((fence) => fence.id !== id);
+    await this.save();
+    await GeofenceMonitor.forget(id);
+  }
+
+  // This backend's zones, e.g. on logout
+  static async clear() {
+    this.geofences = [];
+    try {
+      await AsyncStorage.removeItem(await storageKey(GEOFENCES_KEY));
+    } catch (error) {
+      log.error('Failed to clear geofences:', error);
+    }
+    await GeofenceMonitor.clear();
+  }
+
+  private static async save() {
+    try {
+      await AsyncStorage.setItem(await storageKey(GEOFENCES_KEY), JSON.stringify(this.geofences || []));
+    } catch (error) {
+      log.error('Failed to save geofences:', error);
+    }
+  }
+}
+
+export class GeofenceMonitor {
+  // geofence id -> whether the device was inside at the last evaluation
+  private static insideState: Record<string, boolean> | null = null;
+
+  /**
+   * Check a new position against the device's zones. A breach is an
+   * inside -> outside transition; the first position seen for a zone only
+   * records its state, so creating a zone while the bike is elsewhere
+   * doesn't fire immediately.
+   */
+  static async evaluate(deviceId: string, deviceName: string, lat: number | null, lon: number | null): Promise<Geofence[]> {
+    if (!isValidCoordinate(lat, lon)) return [];
+
+    const geofences = await GeofenceStore.getForDevice(deviceId);
+    if (geofences.length === 0) return [];
+
+    const state = await this.loadState();
+    const point = { lat: lat!, lon: lon! };
+    const breached: Geofence[] = [];
+
+    geofences.forEach((fence) => {
+      const inside = isInsideGeofence(point, fence);
+      if (state[fence.id] === true && !inside) {
+        breached.push(fence);
+      }
+      state[fence.id] = inside;
+    });
+    await this.saveState();
+
+    for (const fence of breached) {
+      const alert = await SyntheticAlerts.add(deviceId, `${GEOFENCE_EXIT_STATUS}: ${fence.name}`, point.lat, point.lon);
+      await presentLocalNotification(
+        `🚨 ${deviceName} left "${fence.name}"`,
+        `Last position: ${point.lat.toFixed(5)}, ${point.lon.toFixed(5)}`,
+        { type: 'geofence_breach', deviceId, geofenceId: fence.id, alertId: alert.id },
+        { severity: 'movement', categoryIdentifier: ALERT_CATEGORY }
+      );
+    }
+
+    return breached;
+  }
+
+  static async forget(geofenceId: string) {
+    const state = await this.loadState();
+    delete state[geofenceId];
+    await this.saveState();
+  }
+
+  static async clear() {
+    this.insideState = {};
+    try {
+      await AsyncStorage.removeItem(await storageKey(GEOFENCE_STATE_KEY));
+    } catch (error) {
+      log.error('Failed to clear geofence state:', error);
+    }
+  }
+
+  // Reread from storage next time, after the backend changed
+  static unload() {
+    this.insideState = null;
+  }
+
+  private static async loadState(): Promise<Record<string, boolean>> {
+    if (this.insideState) return this.insideState;
+
+    try {
+      const stored = await AsyncStorage.getItem(await storageKey(GEOFENCE_STATE_KEY));
+      this.insideState = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      log.error('Failed to load geofence state:', error);
+      this.insideState = {};
+    }
+    return this.insideState!;
+  }
+
+  private static async saveState() {
+    try {
+      await AsyncStorage.setItem(await storageKey(GEOFENCE_STATE_KEY), JSON.stringify(this.insideState || {}));
+    } catch (error) {
+      log.error('Failed to save geofence state:', error);
+    }
+  }
+}
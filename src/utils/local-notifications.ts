@@ -0,0 +1,46 @@
+// Notifikasi yang dibuat di HP sendiri (geofence, command gagal), tanpa ketergantungan ke hook React
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { createLogger } from './logger';
+import { NotificationSettings, NotificationSeverity, setupNotificationChannels } from './notification-preferences';
+
+const log = createLogger('LocalNotifications');
+
+let channelsReady: Promise<void> | null = null;
+
+// Channels must exist before anything is posted to them; set up once per launch
+export const ensureNotificationChannels = (): Promise<void> => {
+  if (!channelsReady) {
+    channelsReady = setupNotificationChannels();
+  }
+  return channelsReady;
+};
+
+// Show a notification generated on the phone itself (e.g. geofence breach)
+export async function presentLocalNotification(
+  title: string,
+  body: string,
+  data: Record<string, unknown> = {},
+  options: { severity?: NotificationSeverity; categoryIdentifier?: string } = {}
+) {
+  try {
+    await Promise.all([NotificationSettings.load(), ensureNotificationChannels()]);
+    const payload = options.severity ? { ...data, severity: options.severity } : data;
+    // When the app is in the background the handler isn't asked, so decide here
+    const behavior = NotificationSettings.getBehavior(payload);
+    if (!behavior.shouldShowList) return;
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title,
+        body,
+        data: payload,
+        sound: behavior.shouldPlaySound,
+        categoryIdentifier: options.categoryIdentifier,
+      },
+      trigger: Platform.OS === 'android' ? { channelId: NotificationSettings.getChannelId(payload) } : null,
+    });
+  } catch (error) {
+    log.error('Failed to present local notification:', error);
+  }
+}
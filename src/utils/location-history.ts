@@ -0,0 +1,124 @@
+// Location history untuk route playback
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from '../services/api';
+import { Environment } from './environment';
+import { createLogger } from './logger';
+
+const log = createLogger('LocationHistory');
+
+export interface LatLng {
+  lat: number;
+  lon: number;
+}
+
+export interface TrackPoint extends LatLng {
+  timestamp: number;
+  source: 'alert' | 'status';
+  label?: string;
+}
+
+const HISTORY_KEY_PREFIX = '@location_history_';
+const MAX_SAMPLES = 500;
+const MAX_SAMPLE_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A coordinate is only usable when both parts are set and it isn't the
+ * 0,0 placeholder the tracker reports before it has a GPS fix.
+ */
+export const isValidCoordinate = (
+  lat: number | null | undefined,
+  lon: number | null | undefined
+): boolean => lat != null && lon != null && !(lat === 0 && lon === 0);
+
+export class LocationHistory {
+  private static samples = new Map<string, TrackPoint[]>();
+  private static unsubscribeEnvironment: (() => void) | null = null;
+
+  static async getSamples(deviceId: string): Promise<TrackPoint[]> {
+    const cached = this.samples.get(deviceId);
+    if (cached) return [...cached];
+
+    try {
+      const stored = await AsyncStorage.getItem(await this.storageKey(deviceId));
+      const parsed: TrackPoint[] = stored ? JSON.parse(stored) : [];
+      this.samples.set(deviceId, parsed);
+      return [...parsed];
+    } catch (error) {
+      log.error('Failed to load location history:', error);
+      return [];
+    }
+  }
+
+  static async addSample(deviceId: string, lat: number, lon: number, timestamp: number) {
+    if (!isValidCoordinate(lat, lon)) return;
+
+    const samples = await this.getSamples(deviceId);
+    const last = samples[samples.length - 1];
+
+    // Polling returns the same fix until the tracker reports again
+    if (last && last.lat === lat && last.lon === lon) return;
+
+    const cutoff = Date.now() - MAX_SAMPLE_AGE_MS;
+    const next = [...samples, { lat, lon, timestamp, source: 'status' as const }]
+      .filter((point) => point.timestamp >= cutoff)
+      .slice(-MAX_SAMPLES);
+
+    this.samples.set(deviceId, next);
+    try {
+      await AsyncStorage.setItem(await this.storageKey(deviceId), JSON.stringify(next));
+    } catch (error) {
+      log.error('Failed to save location history:', error);
+    }
+  }
+
+  static async clear(deviceId: string) {
+    this.samples.delete(deviceId);
+    await AsyncStorage.removeItem(await this.storageKey(deviceId));
+  }
+
+  // Every device's track on every backend, e.g. on logout
+  static async clearAll() {
+    this.samples.clear();
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(HISTORY_KEY_PREFIX)));
+    } catch (error) {
+      log.error('Failed to clear location history:', error);
+    }
+  }
+
+  // Device ids are per backend, so are their tracks
+  private static async storageKey(deviceId: string) {
+    await Environment.init();
+    if (!this.unsubscribeEnvironment) {
+      this.unsubscribeEnvironment = Environment.subscribe(() => this.samples.clear());
+    }
+    return Environment.scopedKey(HISTORY_KEY_PREFIX + deviceId);
+  }
+}
+
+/**
+ * Merge alert positions and polled samples into one time-ordered track,
+ * keeping only points newer than `since` (ms epoch).
+ */
+export function buildTrack(alerts: Alert[], samples: TrackPoint[], since: number): TrackPoint[] {
+  const alertPoints: TrackPoint[] = alerts
+    .filter((alert) => isValidCoordinate(alert.lat, alert.lon) && !!alert.created_at)
+    .map((alert) => ({
+      lat: alert.lat!,
+      lon: alert.lon!,
+      timestamp: new Date(alert.created_at).getTime(),
+      source: 'alert' as const,
+      label: alert.status,
+    }));
+
+  const points = [...alertPoints, ...samples]
+    .filter((point) => !isNaN(point.timestamp) && point.timestamp >= since)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Drop exact duplicates (same fix reported by an alert and a status poll)
+  return points.filter((point, index) => {
+    const prev = points[index - 1];
+    return !prev || prev.timestamp !== point.timestamp || prev.lat !== point.lat || prev.lon !== point.lon;
+  });
+}
@@ -0,0 +1,112 @@
+// Logger terpusat dengan level, tag, redaction dan ring buffer
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: number;
+  level: LogLevel;
+  tag: string;
+  message: string;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Enough to cover a support session without holding on to much memory
+const BUFFER_SIZE = 500;
+
+// Field names whose values never belong in logs or debug output; whole names only, so hasToken stays readable
+const SECRET_FIELD_PATTERN = /("?\b(?:auth_token|refresh_token|access_token|token|password|secret)\b"?\s*[:=]\s*)("[^"]*"|[^\s,}]+)/gi;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PUSH_TOKEN_PATTERN = /Expo(nent)?PushToken\[[^\]]+\]/g;
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9._~+/=-]+/gi;
+
+// Mask token/password values in JSON or key=value text before showing it anywhere
+export function redactSecrets(text: string): string {
+  return text.replace(SECRET_FIELD_PATTERN, '$1"[redacted]"');
+}
+
+// Log lines additionally lose emails and push tokens
+const redactLogText = (text: string) =>
+  redactSecrets(text)
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(PUSH_TOKEN_PATTERN, 'ExponentPushToken[redacted]')
+    .replace(BEARER_PATTERN, 'Bearer [redacted]');
+
+const stringify = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) {
+    const status = (value as any).response?.status;
+    return `${value.name}: ${value.message}${status ? ` (HTTP ${status})` : ''}`;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+export class Logger {
+  // Production builds only surface problems; flip it from the Diagnostics screen when needed
+  private static level: LogLevel = __DEV__ ? 'debug' : 'warn';
+  private static buffer: LogEntry[] = [];
+  private static listeners: ((entries: LogEntry[]) => void)[] = [];
+
+  static setLevel(level: LogLevel) {
+    this.level = level;
+  }
+
+  static getLevel(): LogLevel {
+    return this.level;
+  }
+
+  static write(level: LogLevel, tag: string, args: unknown[]) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return;
+
+    const entry: LogEntry = {
+      time: Date.now(),
+      level,
+      tag,
+      message: redactLogText(args.map(stringify).join(' ')),
+    };
+    this.buffer.push(entry);
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.splice(0, this.buffer.length - BUFFER_SIZE);
+    }
+
+    const output = level === 'debug' ? console.log : console[level];
+    output(`[${tag}] ${entry.message}`);
+    if (this.listeners.length > 0) {
+      const entries = this.getEntries();
+      this.listeners.forEach(listener => listener(entries));
+    }
+  }
+
+  static getEntries(): LogEntry[] {
+    return [...this.buffer];
+  }
+
+  static clear() {
+    this.buffer = [];
+    this.listeners.forEach(listener => listener([]));
+  }
+
+  // Plain text, one entry per line, for sharing with support
+  static exportText(): string {
+    return this.buffer
+      .map(entry => `${new Date(entry.time).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.tag}] ${entry.message}`)
+      .join('\n');
+  }
+
+  static subscribe(callback: (entries: LogEntry[]) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+}
+
+export const createLogger = (tag: string) => ({
+  debug: (...args: unknown[]) => Logger.write('debug', tag, args),
+  info: (...args: unknown[]) => Logger.write('info', tag, args),
+  warn: (...args: unknown[]) => Logger.write('warn', tag, args),
+  error: (...args: unknown[]) => Logger.write('error', tag, args),
+});
@@ -0,0 +1,166 @@
+// Tombol aksi di notifikasi (Buzz, Request Position, Acknowledge) dan deep link ke device
+import * as Linking from 'expo-linking';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { Device, deviceAPI } from '../services/api';
+import { AlertReviews } from './alert-reviews';
+import { CommandQueue } from './command-queue';
+import { getDevicePermissions, getDeviceRole } from './device-roles';
+import { presentLocalNotification } from './local-notifications';
+import { createLogger } from './logger';
+import { CACHE_KEYS, OfflineCache } from './offline-cache';
+
+const log = createLogger('NotificationActions');
+
+// The server sets this as the category of alert pushes
+export const ALERT_CATEGORY = 'device_alert';
+
+const BACKGROUND_NOTIFICATION_TASK = 'iotux-notification-actions';
+
+const ACTIONS = {
+  BUZZ: 'BUZZ',
+  REQUEST_POSITION: 'REQUEST_POSITION',
+  ACKNOWLEDGE: 'ACKNOWLEDGE',
+} as const;
+
+export interface NotificationTarget {
+  deviceId: string;
+  alertId?: number;
+  // Deep link supplied by the server, used as-is
+  url?: string;
+}
+
+/**
+ * Which device a notification is about. Server pushes use snake_case keys,
+ * the ones the app raises itself use camelCase; both are accepted.
+ */
+export const getNotificationTarget = (data: Record<string, unknown> | null | undefined): NotificationTarget | null => {
+  if (!data) return null;
+  const deviceId = data.device_id ?? data.deviceId;
+  if (typeof deviceId !== 'string' || !deviceId) return null;
+
+  const rawAlertId = Number(data.alert_id ?? data.alertId);
+  return {
+    deviceId,
+    alertId: Number.isFinite(rawAlertId) && rawAlertId !== 0 ? rawAlertId : undefined,
+    url: typeof data.url === 'string' ? data.url : undefined,
+  };
+};
+
+// iotux://device-detail?deviceId=...&alertId=... (exp://... in Expo Go)
+export const getNotificationUrl = (target: NotificationTarget) =>
+  target.url ??
+  Linking.createURL('device-detail', {
+    queryParams: target.alertId != null
+      ? { deviceId: target.deviceId, alertId: String(target.alertId) }
+      : { deviceId: target.deviceId },
+  });
+
+export async function registerNotificationCategories() {
+  if (Platform.OS === 'web') return;
+  try {
+    await Notifications.setNotificationCategoryAsync(ALERT_CATEGORY, [
+      { identifier: ACTIONS.BUZZ, buttonTitle: '🔊 Buzz', options: { opensAppToForeground: false } },
+      { identifier: ACTIONS.REQUEST_POSITION, buttonTitle: '📍 Locate', options: { opensAppToForeground: false } },
+      { identifier: ACTIONS.ACKNOWLEDGE, buttonTitle: '✓ Acknowledge', options: { opensAppToForeground: false } },
+    ]);
+  } catch (error) {
+    log.error('Failed to register notification actions:', error);
+  }
+}
+
+/**
+ * Whether the signed-in user may send commands to the device. The alert
+ * category carries the buttons for everyone, so viewers are turned away
+ * here. Devices we can't find at all are refused too.
+ */
+const canControlDevice = async (deviceId: string): Promise<boolean> => {
+  const cached = await OfflineCache.get<Device[]>(CACHE_KEYS.devices);
+  let device = cached?.data.find((d) => d.id === deviceId);
+  if (!device) {
+    try {
+      device = (await deviceAPI.getMyDevices()).find((d) => d.id === deviceId);
+    } catch (error) {
+      log.warn('Failed to look up device role:', error);
+    }
+  }
+  return !!device && getDevicePermissions(getDeviceRole(device)).canControl;
+};
+
+// The same press can reach both the background task and the listener
+const handledResponses = new Set<string>();
+
+const getResponseKey = (response: Notifications.NotificationResponse) =>
+  `${response.notification.request.identifier}:${response.actionIdentifier}`;
+
+// Marks a response as handled; false when someone already took care of it
+export const claimNotificationResponse = (response: Notifications.NotificationResponse): boolean => {
+  const key = getResponseKey(response);
+  if (handledResponses.has(key)) return false;
+  handledResponses.add(key);
+  return true;
+};
+
+/**
+ * Runs an action button press without bringing the app up. Returns false
+ * for a plain tap, which the caller turns into navigation.
+ */
+export async function handleNotificationAction(response: Notifications.NotificationResponse): Promise<boolean> {
+  const { actionIdentifier } = response;
+  if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) return false;
+
+  const target = getNotificationTarget(response.notification.request.content.data);
+  if (!target) {
+    log.warn(`Ignoring ${actionIdentifier}: notification has no device`);
+    return true;
+  }
+
+  try {
+    if (actionIdentifier === ACTIONS.ACKNOWLEDGE) {
+      if (target.alertId != null) {
+        await AlertReviews.reviewIds([target.alertId], 'acknowledged');
+      }
+    } else if (actionIdentifier === ACTIONS.BUZZ || actionIdentifier === ACTIONS.REQUEST_POSITION) {
+      if (!(await canControlDevice(target.deviceId))) {
+        log.warn(`Ignoring ${actionIdentifier}: no control permission for ${target.deviceId}`);
+        await presentLocalNotification(
+          `${actionIdentifier} not sent`,
+          `${target.deviceId} is shared with you as view only.`,
+          { type: 'command_failed', deviceId: target.deviceId }
+        );
+        return true;
+      }
+      // Through the queue so a dead connection still gets retried later
+      await CommandQueue.init();
+      await CommandQueue.addCommand(target.deviceId, actionIdentifier);
+    } else {
+      return false;
+    }
+    log.info(`🔔 ${actionIdentifier} from notification for ${target.deviceId}`);
+    await Notifications.dismissNotificationAsync(response.notification.request.identifier);
+  } catch (error) {
+    log.error(`Notification action ${actionIdentifier} failed:`, error);
+  }
+  return true;
+}
+
+// Android runs this for action presses while the app is backgrounded or killed
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(BACKGROUND_NOTIFICATION_TASK, async ({ data, error }) => {
+  if (error) {
+    log.error('Background notification task failed:', error);
+    return;
+  }
+  if (data && 'actionIdentifier' in data && claimNotificationResponse(data)) {
+    await handleNotificationAction(data);
+  }
+});
+
+export async function registerBackgroundNotificationTask() {
+  if (Platform.OS === 'web') return;
+  try {
+    await Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK);
+  } catch (error) {
+    log.error('Failed to register background notification task:', error);
+  }
+}
@@ -0,0 +1,212 @@
+// Preferensi notifikasi: channel per severity, mute per device dan quiet hours
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { authAPI, NotificationPreferencesPayload } from '../services/api';
+import { createLogger } from './logger';
+
+const log = createLogger('NotificationPrefs');
+
+export type NotificationSeverity = 'theft' | 'movement' | 'low_battery' | 'offline' | 'general';
+
+export interface QuietHours {
+  enabled: boolean;
+  // Minutes after local midnight; start > end means the window crosses midnight
+  start: number;
+  end: number;
+  // Severities that still make noise during quiet hours; theft always does
+  allowedSeverities: NotificationSeverity[];
+}
+
+export interface NotificationPreferences {
+  mutedDeviceIds: string[];
+  quietHours: QuietHours;
+}
+
+const PREFERENCES_KEY = '@iotux_notification_prefs';
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  mutedDeviceIds: [],
+  quietHours: { enabled: false, start: 22 * 60, end: 7 * 60, allowedSeverities: ['theft'] },
+};
+
+/**
+ * Android channel per severity. Ids are part of the server contract (it
+ * picks the channel when sending); users tune sound/vibration per channel
+ * in the system settings.
+ */
+export const NOTIFICATION_CHANNELS: Record<NotificationSeverity, { id: string; name: string; description: string }> = {
+  theft: { id: 'theft_alarm', name: 'Theft alarm', description: 'Alarm triggered on a device; ignores quiet hours' },
+  movement: { id: 'movement', name: 'Movement', description: 'Vibration, movement and safe zone exits' },
+  low_battery: { id: 'low_battery', name: 'Low battery', description: 'Device battery running low' },
+  offline: { id: 'device_offline', name: 'Device offline', description: 'Device stopped reporting' },
+  general: { id: 'default', name: 'General', description: 'Everything else' },
+};
+
+// Local notifications raised during quiet hours go here so Android keeps them silent
+const QUIET_CHANNEL_ID = 'quiet';
+
+const SEVERITY_PATTERNS: [RegExp, NotificationSeverity][] = [
+  [/THEFT|ALARM|TAMPER/, 'theft'],
+  [/BATTERY/, 'low_battery'],
+  [/OFFLINE/, 'offline'],
+  [/MOV|VIBRAT|SHOCK|GEOFENCE/, 'movement'],
+];
+
+// Explicit `severity` from the server wins; otherwise guessed from type/status
+export const getNotificationSeverity = (data: Record<string, unknown> | null | undefined): NotificationSeverity => {
+  const severity = data?.severity;
+  if (typeof severity === 'string' && severity in NOTIFICATION_CHANNELS) {
+    return severity as NotificationSeverity;
+  }
+  const text = `${data?.type ?? ''} ${data?.status ?? ''}`.toUpperCase();
+  return SEVERITY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'general';
+};
+
+// "22:00"
+export const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const isAllowedDuringQuietHours = (quietHours: QuietHours, severity: NotificationSeverity) =>
+  severity === 'theft' || quietHours.allowedSeverities.includes(severity);
+
+// Quiet hours are local wall-clock times, so the server needs the timezone too
+const toPayload = ({ mutedDeviceIds, quietHours }: NotificationPreferences): NotificationPreferencesPayload => ({
+  muted_device_ids: mutedDeviceIds,
+  quiet_hours: {
+    enabled: quietHours.enabled,
+    start: formatMinutes(quietHours.start),
+    end: formatMinutes(quietHours.end),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    allow_severities: (Object.keys(NOTIFICATION_CHANNELS) as NotificationSeverity[]).filter((severity) =>
+      isAllowedDuringQuietHours(quietHours, severity)
+    ),
+  },
+});
+
+export async function setupNotificationChannels() {
+  if (Platform.OS !== 'android') return;
+
+  const importance: Record<NotificationSeverity, Notifications.AndroidImportance> = {
+    theft: Notifications.AndroidImportance.MAX,
+    movement: Notifications.AndroidImportance.HIGH,
+    low_battery: Notifications.AndroidImportance.DEFAULT,
+    offline: Notifications.AndroidImportance.DEFAULT,
+    general: Notifications.AndroidImportance.DEFAULT,
+  };
+
+  try {
+    for (const [severity, channel] of Object.entries(NOTIFICATION_CHANNELS) as [NotificationSeverity, typeof NOTIFICATION_CHANNELS.general][]) {
+      await Notifications.setNotificationChannelAsync(channel.id, {
+        name: channel.name,
+        description: channel.description,
+        importance: importance[severity],
+        vibrationPattern: severity === 'theft' ? [0, 500, 250, 500, 250, 500] : [0, 250, 250, 250],
+        lightColor: '#FF231F7C',
+        // A stolen vehicle is worth waking someone up for
+        bypassDnd: severity === 'theft',
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+      });
+    }
+    await Notifications.setNotificationChannelAsync(QUIET_CHANNEL_ID, {
+      name: 'Quiet hours',
+      description: 'Notifications held back during quiet hours',
+      importance: Notifications.AndroidImportance.LOW,
+      sound: null,
+    });
+  } catch (error) {
+    log.error('Failed to set up notification channels:', error);
+  }
+}
+
+export class NotificationSettings {
+  private static preferences: NotificationPreferences = DEFAULT_PREFERENCES;
+  private static loading: Promise<NotificationPreferences> | null = null;
+  private static listeners: ((preferences: NotificationPreferences) => void)[] = [];
+
+  static load(): Promise<NotificationPreferences> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+          if (stored) {
+            const parsed = JSON.parse(stored);
+            this.preferences = {
+              ...DEFAULT_PREFERENCES,
+              ...parsed,
+              quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...parsed.quietHours },
+            };
+          }
+        } catch (error) {
+          log.error('Failed to load notification preferences:', error);
+        }
+        return this.preferences;
+      })();
+    }
+    return this.loading;
+  }
+
+  static get(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  static async update(changes: Partial<NotificationPreferences>) {
+    await this.load();
+    this.preferences = { ...this.preferences, ...changes };
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(this.preferences));
+    this.listeners.forEach((listener) => listener(this.preferences));
+    await this.sync();
+  }
+
+  static setDeviceMuted(deviceId: string, muted: boolean) {
+    const others = this.preferences.mutedDeviceIds.filter((id) => id !== deviceId);
+    return this.update({ mutedDeviceIds: muted ? [...others, deviceId] : others });
+  }
+
+  static isDeviceMuted(deviceId: string): boolean {
+    return this.preferences.mutedDeviceIds.includes(deviceId);
+  }
+
+  static isQuietTime(date: Date = new Date()): boolean {
+    const { enabled, start, end } = this.preferences.quietHours;
+    if (!enabled || start === end) return false;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  }
+
+  /**
+   * How a notification should be shown while the app decides (foreground
+   * pushes and the app's own notifications). Muted devices stay silent and
+   * out of sight; quiet hours only let the allowed severities make noise.
+   */
+  static getBehavior(data: Record<string, unknown> | null | undefined): Notifications.NotificationBehavior {
+    const deviceId = data?.device_id ?? data?.deviceId;
+    if (typeof deviceId === 'string' && this.isDeviceMuted(deviceId)) {
+      return { shouldShowBanner: false, shouldShowList: false, shouldPlaySound: false, shouldSetBadge: false };
+    }
+    const loud = isAllowedDuringQuietHours(this.preferences.quietHours, getNotificationSeverity(data)) || !this.isQuietTime();
+    return { shouldShowBanner: loud, shouldShowList: true, shouldPlaySound: loud, shouldSetBadge: false };
+  }
+
+  // Android channel for a notification the app raises itself
+  static getChannelId(data: Record<string, unknown> | null | undefined): string {
+    const severity = getNotificationSeverity(data);
+    return !isAllowedDuringQuietHours(this.preferences.quietHours, severity) && this.isQuietTime() ? QUIET_CHANNEL_ID : NOTIFICATION_CHANNELS[severity].id;
+  }
+
+  // The server applies the same rules to pushes that arrive while the app is closed
+  static async sync() {
+    try {
+      await authAPI.syncNotificationPreferences(toPayload(this.preferences));
+    } catch (error) {
+      log.warn('Failed to sync notification preferences:', error);
+    }
+  }
+
+  static subscribe(callback: (preferences: NotificationPreferences) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+}
@@ -0,0 +1,100 @@
+// Offline cache untuk data terakhir yang berhasil di-fetch
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Environment } from './environment';
+import { createLogger } from './logger';
+
+const log = createLogger('OfflineCache');
+
+// Bump when the shape of cached data changes; older entries are dropped on migrate()
+const CACHE_VERSION = 1;
+const CACHE_PREFIX = '@offline_cache';
+const CACHE_KEY_PREFIX = `${CACHE_PREFIX}_v${CACHE_VERSION}:`;
+
+// Read by an older DashboardScreen but never written
+const LEGACY_KEYS = ['@cached_devices', '@cached_user', '@cached_alerts'];
+
+export const CACHE_KEYS = {
+  devices: 'devices',
+  status: (deviceId: string) => `status:${deviceId}`,
+  alerts: (deviceId: string) => `alerts:${deviceId}`,
+};
+
+export interface CachedValue<T> {
+  data: T;
+  // ms epoch of the fetch that produced `data`
+  savedAt: number;
+}
+
+export class OfflineCache {
+  private static migration: Promise<void> | null = null;
+
+  static async get<T>(key: string): Promise<CachedValue<T> | null> {
+    await this.migrate();
+    try {
+      const stored = await AsyncStorage.getItem(await this.storageKey(key));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      log.error('Failed to read offline cache:', error);
+      return null;
+    }
+  }
+
+  static async set<T>(key: string, data: T, savedAt: number = Date.now()) {
+    const entry: CachedValue<T> = { data, savedAt };
+    try {
+      await AsyncStorage.setItem(await this.storageKey(key), JSON.stringify(entry));
+    } catch (error) {
+      log.error('Failed to write offline cache:', error);
+    }
+  }
+
+  // Everything cached, in every version (logout)
+  static async clear() {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(
+        keys.filter((key) => key.startsWith(CACHE_PREFIX) || LEGACY_KEYS.includes(key))
+      );
+    } catch (error) {
+      log.error('Failed to clear offline cache:', error);
+    }
+  }
+
+  // Cached devices belong to one backend; another one must not show them
+  private static async storageKey(key: string) {
+    await Environment.init();
+    return Environment.scopedKey(CACHE_KEY_PREFIX + key);
+  }
+
+  // Drop legacy keys and entries from other cache versions, once per launch
+  static migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = (async () => {
+        try {
+          const keys = await AsyncStorage.getAllKeys();
+          const stale = keys.filter(
+            (key) =>
+              LEGACY_KEYS.includes(key) ||
+              (key.startsWith(CACHE_PREFIX) && !key.startsWith(CACHE_KEY_PREFIX))
+          );
+          if (stale.length > 0) {
+            await AsyncStorage.multiRemove(stale);
+          }
+        } catch (error) {
+          log.error('Offline cache migration failed:', error);
+        }
+      })();
+    }
+    return this.migration;
+  }
+}
+
+// "just now", "12 min ago", "3 h ago", "2 d ago"
+export function formatCacheAge(savedAt: number, now: number = Date.now()): string {
+  const minutes = Math.floor(Math.max(now - savedAt, 0) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
@@ -0,0 +1,153 @@
+// Secure storage untuk token dan secret lain
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { createLogger } from './logger';
+
+const log = createLogger('SecureStorage');
+
+// Where the encrypted values live on web; the key itself stays in IndexedDB
+const WEB_VALUE_PREFIX = '@secure:';
+const WEB_KEY_DB = 'iotux-secure-storage';
+const WEB_KEY_STORE = 'keys';
+const WEB_KEY_ID = 'master';
+
+// SecureStore only allows alphanumerics, ".", "-" and "_" in keys
+const toNativeKey = (key: string) => key.replace(/[^A-Za-z0-9._-]/g, '');
+
+const hasWebCrypto = () =>
+  typeof globalThis.crypto?.subtle !== 'undefined' && typeof globalThis.indexedDB !== 'undefined';
+
+const idbRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+let webKeyRequest: Promise<CryptoKey> | null = null;
+
+/**
+ * AES-GCM key generated in the browser as non-extractable, so even a copy
+ * of localStorage doesn't reveal the tokens without this origin's IndexedDB.
+ */
+const getWebKey = (): Promise<CryptoKey> => {
+  if (!webKeyRequest) {
+    webKeyRequest = (async () => {
+      const openRequest = indexedDB.open(WEB_KEY_DB, 1);
+      openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(WEB_KEY_STORE);
+      const db = await idbRequest(openRequest);
+
+      const existing = await idbRequest<CryptoKey | undefined>(
+        db.transaction(WEB_KEY_STORE).objectStore(WEB_KEY_STORE).get(WEB_KEY_ID)
+      );
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+      await idbRequest(
+        db.transaction(WEB_KEY_STORE, 'readwrite').objectStore(WEB_KEY_STORE).put(key, WEB_KEY_ID)
+      );
+      return key;
+    })().catch((error) => {
+      webKeyRequest = null;
+      throw error;
+    });
+  }
+  return webKeyRequest;
+};
+
+export class SecureStorage {
+  private static migration: Promise<void> | null = null;
+
+  static async getItem(key: string): Promise<string | null> {
+    if (Platform.OS !== 'web') {
+      return SecureStore.getItemAsync(toNativeKey(key));
+    }
+    if (!hasWebCrypto()) {
+      return AsyncStorage.getItem(key);
+    }
+
+    const stored = await AsyncStorage.getItem(WEB_VALUE_PREFIX + key);
+    if (!stored) return null;
+    try {
+      const [iv, data] = stored.split('.');
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        await getWebKey(),
+        fromBase64(data)
+      );
+      return new TextDecoder().decode(plain);
+    } catch {
+      // Key lost (site data partly cleared); the value is unrecoverable
+      log.warn('Failed to decrypt secure value, discarding it:', key);
+      await AsyncStorage.removeItem(WEB_VALUE_PREFIX + key);
+      return null;
+    }
+  }
+
+  static async setItem(key: string, value: string) {
+    if (Platform.OS !== 'web') {
+      await SecureStore.setItemAsync(toNativeKey(key), value);
+      return;
+    }
+    if (!hasWebCrypto()) {
+      log.warn('⚠️ Web Crypto unavailable, storing secret unencrypted');
+      await AsyncStorage.setItem(key, value);
+      return;
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await getWebKey(),
+      new TextEncoder().encode(value)
+    );
+    await AsyncStorage.setItem(
+      WEB_VALUE_PREFIX + key,
+      `${toBase64(iv)}.${toBase64(new Uint8Array(encrypted))}`
+    );
+  }
+
+  static async removeItem(key: string) {
+    if (Platform.OS !== 'web') {
+      await SecureStore.deleteItemAsync(toNativeKey(key));
+      return;
+    }
+    await AsyncStorage.multiRemove([key, WEB_VALUE_PREFIX + key]);
+  }
+
+  static async multiRemove(keys: string[]) {
+    await Promise.all(keys.map((key) => this.removeItem(key)));
+  }
+
+  /**
+   * Move secrets that older versions kept in plain AsyncStorage into secure
+   * storage. Runs once per launch; later calls wait for the first.
+   */
+  static migrateFromAsyncStorage(keys: string[]): Promise<void> {
+    if (!this.migration) {
+      this.migration = (async () => {
+        for (const key of keys) {
+          try {
+            const legacy = await AsyncStorage.getItem(key);
+            if (legacy == null) continue;
+            await this.setItem(key, legacy);
+            // On web without crypto setItem wrote the same plain key, keep it
+            if (Platform.OS !== 'web' || hasWebCrypto()) {
+              await AsyncStorage.removeItem(key);
+            }
+            log.info(`🔒 Moved ${key} to secure storage`);
+          } catch (error) {
+            log.error(`Failed to migrate ${key} to secure storage:`, error);
+          }
+        }
+      })();
+    }
+    return this.migration;
+  }
+}
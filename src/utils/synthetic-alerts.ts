@@ -0,0 +1,86 @@
+// Alerts generated on the phone (geofence breach etc.), stored next to server alerts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from '../services/api';
+import { Environment } from './environment';
+import { createLogger } from './logger';
+
+const log = createLogger('SyntheticAlerts');
+
+const SYNTHETIC_ALERTS_KEY = '@synthetic_alerts';
+const MAX_ALERTS_PER_DEVICE = 200;
+
+// Several alerts can be raised in the same millisecond (one position crossing
+// a few zones), so the clock alone isn't unique enough
+let sequence = 0;
+const nextAlertId = () => -(Date.now() * 1000 + (sequence++ % 1000));
+
+export class SyntheticAlerts {
+  private static alerts: Alert[] | null = null;
+  private static unsubscribeEnvironment: (() => void) | null = null;
+
+  static async getAll(): Promise<Alert[]> {
+    if (this.alerts) return [...this.alerts];
+
+    await Environment.init();
+    if (!this.unsubscribeEnvironment) {
+      // Device ids are per backend, so are these alerts
+      this.unsubscribeEnvironment = Environment.subscribe(() => {
+        this.alerts = null;
+      });
+    }
+    try {
+      const stored = await AsyncStorage.getItem(Environment.scopedKey(SYNTHETIC_ALERTS_KEY));
+      this.alerts = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Failed to load synthetic alerts:', error);
+      this.alerts = [];
+    }
+    return [...this.alerts!];
+  }
+
+  static async getForDevice(deviceId: string): Promise<Alert[]> {
+    const alerts = await this.getAll();
+    return alerts.filter((alert) => alert.device_id === deviceId);
+  }
+
+  static async add(deviceId: string, status: string, lat: number | null, lon: number | null): Promise<Alert> {
+    const alerts = await this.getAll();
+    const alert: Alert = {
+      // Negative ids can never collide with server alert ids
+      id: nextAlertId(),
+      device_id: deviceId,
+      status,
+      lat,
+      lon,
+      created_at: new Date().toISOString(),
+    };
+
+    const forDevice = [...alerts.filter((a) => a.device_id === deviceId), alert].slice(-MAX_ALERTS_PER_DEVICE);
+    this.alerts = [...alerts.filter((a) => a.device_id !== deviceId), ...forDevice];
+    await this.save();
+    return alert;
+  }
+
+  static async clearDevice(deviceId: string) {
+    const alerts = await this.getAll();
+    this.alerts = alerts.filter((alert) => alert.device_id !== deviceId);
+    await this.save();
+  }
+
+  // This backend's alerts, e.g. on logout
+  static async clear() {
+    this.alerts = [];
+    await this.save();
+  }
+
+  private static async save() {
+    try {
+      await Environment.init();
+      await AsyncStorage.setItem(Environment.scopedKey(SYNTHETIC_ALERTS_KEY), JSON.stringify(this.alerts || []));
+    } catch (error) {
+      log.error('Failed to save synthetic alerts:', error);
+    }
+  }
+}
+
+export const isSyntheticAlert = (alert: Alert) => alert.id < 0;